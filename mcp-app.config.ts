@@ -0,0 +1,23 @@
+/**
+ * Project configuration, read by the MCP server and by the widget build (web/build.mts).
+ * Every setting is optional and can be overridden with an environment variable.
+ * See shared/src/config.ts for all settings and their defaults.
+ */
+import { defineConfig } from "./shared/src/config.ts";
+
+export default defineConfig({
+  // Sandbox of every widget iframe (openai/widgetDomain and openai/widgetCSP)
+  widget: {
+    domain: "https://chatgpt.com",
+    csp: {
+      connectDomains: ["https://chatgpt.com"],
+      resourceDomains: ["https://*.oaistatic.com"],
+    },
+  },
+  // Bundle size budgets checked by `pnpm run build`
+  build: {
+    budgets: {
+      "*": { maxJsBytes: 750_000, maxCssBytes: 100_000, maxGzipBytes: 250_000 },
+    },
+  },
+});
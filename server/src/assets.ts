@@ -0,0 +1,259 @@
+// ASSETS.TS
+/**
+ * Static file serving for the built widget assets (web/dist), CDN style.
+ *
+ * `web/build.mts` writes JS and CSS under `assets/` with content-hashed names, and `<name>.html`
+ * and `manifest.json` with fixed names next to them. The server serves the whole directory at the
+ * root of BASE_URL, so the URLs in the built HTML (`${BASE_URL}/assets/todo-3f9a1c2b.js`) resolve:
+ * - Files under `assets/` never change once built: `Cache-Control: public, max-age=31536000, immutable`
+ * - Everything else may change with the next build: `Cache-Control: no-cache`, revalidated by ETag
+ * - Text files are sent brotli- or gzip-compressed when the client accepts it
+ * - Source maps and manifest.json are not served unless `exposeBuildFiles` is set: widgets never
+ *   load them, and they would hand anyone the widgets' source code and the build's file list
+ *
+ * Files are read, hashed and compressed once and kept in memory until they change on disk.
+ * Responses allow any origin, since widget iframes on ChatGPT's sandbox domain load them as modules.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+type Encoding = "br" | "gzip";
+
+export type StaticAssetsOptions = {
+  exposeBuildFiles?: boolean;  // Also serve source maps and manifest.json (default: false)
+};
+
+/**
+ * A file as read from disk, with its compressed variants once they have been requested.
+ */
+type CachedFile = {
+  mtimeMs: number;
+  size: number;
+  body: Buffer;
+  etag: string;                                        // Of the uncompressed body
+  encoded: Partial<Record<Encoding, Promise<Buffer>>>;
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Directory of content-hashed files, relative to the assets directory
+const HASHED_DIR = "assets";
+
+// Build output that is only served with `exposeBuildFiles`
+const MANIFEST_FILE = "manifest.json";
+const SOURCE_MAP_EXTENSION = ".map";
+
+const IMMUTABLE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+const REVALIDATE_CACHE_CONTROL = "no-cache";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+// Types worth compressing; images and fonts are compressed already
+const COMPRESSIBLE_EXTENSIONS = new Set([".html", ".js", ".mjs", ".css", ".json", ".map", ".svg"]);
+
+// Smaller files are sent as they are
+const MIN_COMPRESS_BYTES = 1024;
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Picks the best encoding the client accepts: brotli, then gzip, then none.
+ */
+function negotiateEncoding(acceptEncoding: string | undefined): Encoding | null {
+  if (!acceptEncoding) return null;
+
+  const accepted = new Set(
+    acceptEncoding
+      .split(",")
+      .map((part) => part.trim().toLowerCase().split(";"))
+      .filter(([, ...params]) => !params.some((param) => /^\s*q=0(\.0*)?\s*$/.test(param)))
+      .map(([name]) => name)
+  );
+  if (accepted.has("br")) return "br";
+  if (accepted.has("gzip")) return "gzip";
+  return null;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag (weak comparison, as for GET).
+ */
+function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  return ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Compresses a file body with the given encoding, at the strongest level since the result is cached.
+ */
+function compress(body: Buffer, encoding: Encoding): Promise<Buffer> {
+  return encoding === "br"
+    ? brotliCompress(body, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: body.length,
+        },
+      })
+    : gzip(body, { level: zlib.constants.Z_BEST_COMPRESSION });
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Serves the files of one directory over HTTP with caching headers and compression.
+ */
+export class StaticAssets {
+  private readonly root: string;
+  private readonly files = new Map<string, CachedFile>();
+  private readonly exposeBuildFiles: boolean;
+
+  constructor(assetsDir: string, { exposeBuildFiles = false }: StaticAssetsOptions = {}) {
+    this.root = path.resolve(assetsDir);
+    this.exposeBuildFiles = exposeBuildFiles;
+  }
+
+  /**
+   * Serves a GET or HEAD request for a file in the assets directory.
+   *
+   * @returns false if the request is not for an existing file, so the caller can answer 404
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    if (req.method !== "GET" && req.method !== "HEAD") return false;
+
+    const filePath = this.resolve(url.pathname);
+    if (!filePath) return false;
+
+    const file = await this.read(filePath);
+    if (!file) return false;
+
+    const relativePath = path.relative(this.root, filePath);
+    const extension = path.extname(filePath).toLowerCase();
+    const encoding = COMPRESSIBLE_EXTENSIONS.has(extension) && file.size >= MIN_COMPRESS_BYTES
+      ? negotiateEncoding(req.headers["accept-encoding"])
+      : null;
+    const etag = encoding ? `${file.etag.slice(0, -1)}-${encoding}"` : file.etag;
+
+    const headers: Record<string, string> = {
+      "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream",
+      "Cache-Control": relativePath.startsWith(`${HASHED_DIR}${path.sep}`) ? IMMUTABLE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL,
+      ETag: etag,
+      "Last-Modified": new Date(file.mtimeMs).toUTCString(),
+      "Access-Control-Allow-Origin": "*",
+      "Cross-Origin-Resource-Policy": "cross-origin",
+      "X-Content-Type-Options": "nosniff",
+      ...(COMPRESSIBLE_EXTENSIONS.has(extension) && { Vary: "Accept-Encoding" }),
+    };
+
+    if (etagMatches(req.headers["if-none-match"], etag)) {
+      res.writeHead(304, headers).end();
+      return true;
+    }
+
+    const body = encoding ? await this.encode(file, encoding) : file.body;
+    res.writeHead(200, {
+      ...headers,
+      ...(encoding && { "Content-Encoding": encoding }),
+      "Content-Length": String(body.length),
+    });
+    res.end(req.method === "HEAD" ? undefined : body);
+    return true;
+  }
+
+  /**
+   * Forgets every cached file, e.g. after a rebuild replaced the directory.
+   */
+  clear() {
+    this.files.clear();
+  }
+
+  /**
+   * Maps a URL path to a file inside the assets directory, or null if it points elsewhere
+   * (`..` segments, encoded separators), at a dotfile, or at a build file that is not exposed.
+   */
+  private resolve(pathname: string): string | null {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathname);
+    } catch {
+      return null;
+    }
+    if (decoded.includes("\0") || decoded.includes("\\")) return null;
+
+    const filePath = path.resolve(this.root, `.${path.posix.normalize(decoded)}`);
+    if (!filePath.startsWith(`${this.root}${path.sep}`)) return null;
+    const relativePath = path.relative(this.root, filePath);
+    if (relativePath.split(path.sep).some((segment) => segment.startsWith("."))) return null;
+    if (!this.exposeBuildFiles && (relativePath === MANIFEST_FILE || filePath.toLowerCase().endsWith(SOURCE_MAP_EXTENSION))) {
+      return null;
+    }
+    return filePath;
+  }
+
+  /**
+   * Returns a file from the cache, re-reading it if it changed on disk, or null if it is not a file.
+   */
+  private async read(filePath: string): Promise<CachedFile | null> {
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) {
+      this.files.delete(filePath);
+      return null;
+    }
+
+    const cached = this.files.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) return cached;
+
+    const body = await fs.readFile(filePath).catch(() => null);
+    if (!body) return null;
+
+    const file: CachedFile = {
+      mtimeMs: stats.mtimeMs,
+      size: body.length,
+      body,
+      etag: `"${createHash("sha256").update(body).digest("base64url").slice(0, 22)}"`,
+      encoded: {},
+    };
+    this.files.set(filePath, file);
+    return file;
+  }
+
+  /**
+   * Returns a file's body compressed with `encoding`, compressing it on first use.
+   */
+  private encode(file: CachedFile, encoding: Encoding): Promise<Buffer> {
+    file.encoded[encoding] ??= compress(file.body, encoding);
+    return file.encoded[encoding];
+  }
+}
@@ -0,0 +1,235 @@
+// AUTH.TS
+/**
+ * OAuth 2.1 protection for the MCP endpoints (the "resource server" side).
+ *
+ * - Publishes protected resource metadata (RFC 9728) at /.well-known/oauth-protected-resource,
+ *   which tells ChatGPT which authorization server issues tokens for this server
+ * - Validates the `Authorization: Bearer` token on every MCP request and answers 401 with a
+ *   `WWW-Authenticate` header pointing at the metadata when it is missing or invalid
+ * - Resolves the user a tool call acts for from the validated token, so tools never trust a
+ *   user ID sent in their arguments
+ *
+ * Token verification is pluggable: the bundled dev authorization server (devAuthServer.ts)
+ * verifies its own tokens, and IntrospectionTokenVerifier asks an external authorization server.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { AuthConfig } from "mcp-app-shared/config";
+
+import { logger } from "./logger.js";
+import { DEFAULT_USER_ID } from "./storage.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/**
+ * How MCP requests are authenticated:
+ * - none: no authentication, every call acts for the default user
+ * - dev: tokens issued by the bundled dev authorization server
+ * - introspection: tokens issued by an external authorization server, checked via RFC 7662 introspection
+ */
+export type AuthMode = AuthConfig["mode"];
+
+/**
+ * An incoming request after authentication. The MCP transports pass `auth` on to tool
+ * handlers as `extra.authInfo`.
+ */
+export type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+type ResourceServerOptions = {
+  resource: string;               // Canonical URL of the protected MCP endpoint
+  authorizationServers: string[]; // Issuers whose tokens this server accepts
+  requiredScopes: string[];       // Scopes every token must carry
+  verifier: OAuthTokenVerifier;   // Checks tokens and resolves them to AuthInfo
+};
+
+type IntrospectionOptions = {
+  introspectionUrl: string;       // RFC 7662 introspection endpoint of the authorization server
+  clientId?: string;              // Credentials this server uses to call the endpoint
+  clientSecret?: string;
+  resource?: string;              // Tokens must have been issued for this audience when set
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Where protected resource metadata is served
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// Scope the todo tools require
+export const TODO_SCOPE = "todos";
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads the token from an `Authorization: Bearer <token>` header.
+ *
+ * @throws InvalidTokenError if the header is missing or not a bearer token
+ */
+function readBearerToken(req: IncomingMessage): string {
+  const header = req.headers.authorization;
+  if (!header) {
+    throw new InvalidTokenError("Missing Authorization header");
+  }
+  const [type, token] = header.split(" ");
+  if (type.toLowerCase() !== "bearer" || !token) {
+    throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'");
+  }
+  return token;
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Returns the ID of the user a tool call acts for. Without authentication (AUTH_MODE=none)
+ * every call acts for the default user.
+ */
+export function userIdFromAuth(authInfo: AuthInfo | undefined): string {
+  const subject = authInfo?.extra?.sub;
+  return typeof subject === "string" && subject ? subject : DEFAULT_USER_ID;
+}
+
+/**
+ * Protects the MCP endpoints of this server: serves the protected resource metadata and
+ * authenticates requests with bearer tokens.
+ */
+export class ResourceServer {
+  readonly metadataUrl: string;
+
+  constructor(private readonly options: ResourceServerOptions) {
+    this.metadataUrl = new URL(PROTECTED_RESOURCE_METADATA_PATH, options.resource).href;
+  }
+
+  /**
+   * Protected resource metadata (RFC 9728) describing this server.
+   */
+  metadata(): OAuthProtectedResourceMetadata {
+    return {
+      resource: this.options.resource,
+      authorization_servers: this.options.authorizationServers,
+      scopes_supported: this.options.requiredScopes,
+      bearer_methods_supported: ["header"],
+      resource_name: "MCP App server",
+    };
+  }
+
+  /**
+   * Serves GET /.well-known/oauth-protected-resource.
+   */
+  handleMetadataRequest(res: ServerResponse) {
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    }).end(JSON.stringify(this.metadata()));
+  }
+
+  /**
+   * Authenticates a request and attaches the token's AuthInfo as `req.auth`.
+   * On failure, answers 401/403 with a `WWW-Authenticate` challenge and returns false.
+   */
+  async authenticate(req: AuthenticatedRequest, res: ServerResponse): Promise<boolean> {
+    try {
+      const authInfo = await this.options.verifier.verifyAccessToken(readBearerToken(req));
+
+      if (authInfo.expiresAt !== undefined && authInfo.expiresAt < Date.now() / 1000) {
+        throw new InvalidTokenError("Token has expired");
+      }
+      const missing = this.options.requiredScopes.filter((s) => !authInfo.scopes.includes(s));
+      if (missing.length) {
+        throw new InsufficientScopeError(`Missing required scope: ${missing.join(" ")}`);
+      }
+
+      req.auth = authInfo;
+      return true;
+    } catch (error) {
+      const oauthError = error instanceof OAuthError ? error : new ServerError("Failed to verify token");
+      if (!(error instanceof OAuthError)) {
+        logger.error("Token verification failed", { error });
+      }
+
+      const status =
+        oauthError instanceof InvalidTokenError ? 401 :
+        oauthError instanceof InsufficientScopeError ? 403 : 500;
+      const challenge = [
+        `error="${oauthError.errorCode}"`,
+        `error_description="${oauthError.message}"`,
+        ...(oauthError instanceof InsufficientScopeError ? [`scope="${this.options.requiredScopes.join(" ")}"`] : []),
+        `resource_metadata="${this.metadataUrl}"`,
+      ];
+
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "WWW-Authenticate": `Bearer ${challenge.join(", ")}`,
+      }).end(JSON.stringify(oauthError.toResponseObject()));
+      return false;
+    }
+  }
+}
+
+/**
+ * Verifies tokens issued by an external authorization server through its RFC 7662
+ * introspection endpoint. The token's `sub` becomes the user ID the tools act for.
+ */
+export class IntrospectionTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly options: IntrospectionOptions) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const { introspectionUrl, clientId, clientSecret, resource } = this.options;
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    if (clientId) {
+      headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret ?? ""}`).toString("base64")}`;
+    }
+
+    const response = await fetch(introspectionUrl, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ token }).toString(),
+    });
+    if (!response.ok) {
+      throw new ServerError(`Token introspection failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      active?: boolean;
+      sub?: string;
+      client_id?: string;
+      scope?: string;
+      exp?: number;
+      aud?: string | string[];
+    };
+    if (!data.active) {
+      throw new InvalidTokenError("Token is not active");
+    }
+    if (!data.sub) {
+      throw new InvalidTokenError("Token has no subject");
+    }
+    const audiences = Array.isArray(data.aud) ? data.aud : data.aud ? [data.aud] : [];
+    if (resource && !audiences.includes(resource)) {
+      throw new InvalidTokenError("Token was not issued for this resource");
+    }
+
+    return {
+      token,
+      clientId: data.client_id ?? "",
+      scopes: data.scope ? data.scope.split(" ") : [],
+      expiresAt: data.exp,
+      resource: resource ? new URL(resource) : undefined,
+      extra: { sub: data.sub },
+    };
+  }
+}
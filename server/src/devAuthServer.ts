@@ -0,0 +1,469 @@
+// DEVAUTHSERVER.TS
+/**
+ * Minimal OAuth 2.1 authorization server for local development (AUTH_MODE=dev).
+ *
+ * Lets ChatGPT (or the MCP Inspector) run the full OAuth flow against a local server without
+ * setting up a real identity provider:
+ * - GET  /.well-known/oauth-authorization-server - Authorization server metadata (RFC 8414)
+ * - POST /oauth/register  - Dynamic client registration (RFC 7591), public clients only
+ * - GET  /oauth/authorize - Sign-in page: type any user name to sign in as that user
+ * - POST /oauth/authorize - Issues an authorization code and redirects back to the client
+ * - POST /oauth/token     - Exchanges codes (with PKCE) and refresh tokens for access tokens
+ *
+ * Clients, codes and tokens live in memory and are lost on restart. There are no passwords:
+ * anyone who can reach the sign-in page can sign in as anyone. Never expose it in production;
+ * use AUTH_MODE=introspection with a real authorization server instead.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InvalidClientError,
+  InvalidClientMetadataError,
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidScopeError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+  UnsupportedGrantTypeError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import {
+  OAuthClientMetadataSchema,
+  type OAuthClientInformationFull,
+  type OAuthMetadata,
+  type OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+
+import { PayloadTooLargeError, readBody } from "./limits.js";
+import { logger } from "./logger.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+type DevAuthServerOptions = {
+  issuer: string;       // Base URL of this server, e.g. http://localhost:8000
+  resource: string;     // The MCP endpoint tokens are issued for
+  scopes: string[];     // Scopes clients may request
+  maxBodyBytes: number; // Largest registration, sign-in or token request body accepted
+};
+
+// Authorization code waiting to be exchanged for tokens
+type PendingCode = {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: string[];
+  expiresAt: number;    // Epoch milliseconds
+};
+
+// Issued access or refresh token
+type Grant = {
+  clientId: string;
+  userId: string;
+  scopes: string[];
+  expiresAt: number;    // Epoch milliseconds
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+const METADATA_PATH = "/.well-known/oauth-authorization-server";
+const REGISTER_PATH = "/oauth/register";
+const AUTHORIZE_PATH = "/oauth/authorize";
+const TOKEN_PATH = "/oauth/token";
+
+const CODE_TTL_MS = 10 * 60 * 1000;                 // Authorization codes
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000;         // Access tokens
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Refresh tokens, rotated on every use
+
+const DEFAULT_DEV_USER = "dev-user";
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads a request body of at most `maxBytes` as text.
+ */
+async function readText(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return (await readBody(req, maxBytes)).toString("utf8");
+}
+
+/**
+ * Reads an `application/x-www-form-urlencoded` request body of at most `maxBytes`.
+ */
+async function readFormBody(req: IncomingMessage, maxBytes: number): Promise<URLSearchParams> {
+  return new URLSearchParams(await readText(req, maxBytes));
+}
+
+/**
+ * Random URL-safe token.
+ */
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Escapes text for use inside HTML attributes and content.
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Sends a JSON response that clients and caches must not store.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+    "Access-Control-Allow-Origin": "*",
+  }).end(JSON.stringify(body));
+}
+
+/**
+ * Sends an OAuth error response (RFC 6749 section 5.2).
+ */
+function sendOAuthError(res: ServerResponse, error: OAuthError) {
+  const status = error instanceof InvalidClientError ? 401 : error instanceof ServerError ? 500 : 400;
+  sendJson(res, status, error.toResponseObject());
+}
+
+/**
+ * Sign-in page shown by GET /oauth/authorize. Submitting it posts the authorization request
+ * back together with the chosen user name.
+ */
+function renderSignInPage(clientName: string, params: URLSearchParams): string {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join("\n      ");
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Sign in - MCP App dev server</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 360px; margin: 80px auto; padding: 0 16px; }
+      input[type=text] { width: 100%; padding: 8px; margin: 8px 0 16px; box-sizing: border-box; }
+      button { padding: 8px 16px; }
+      p { color: #555; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <h1>Sign in</h1>
+    <p><strong>${escapeHtml(clientName)}</strong> wants to access your todos.</p>
+    <p>Development server: no password needed, any user name works.</p>
+    <form method="post" action="${AUTHORIZE_PATH}">
+      ${hidden}
+      <label for="username">User name</label>
+      <input type="text" id="username" name="username" value="${DEFAULT_DEV_USER}" required autofocus>
+      <button type="submit">Allow</button>
+    </form>
+  </body>
+</html>`;
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * In-memory OAuth 2.1 authorization server for local development. Also verifies the tokens it
+ * issues, so it doubles as the resource server's token verifier.
+ */
+export class DevAuthorizationServer implements OAuthTokenVerifier {
+  private readonly clients = new Map<string, OAuthClientInformationFull>();
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly accessTokens = new Map<string, Grant>();
+  private readonly refreshTokens = new Map<string, Grant>();
+
+  constructor(private readonly options: DevAuthServerOptions) {}
+
+  /**
+   * Authorization server metadata (RFC 8414).
+   */
+  metadata(): OAuthMetadata {
+    const { issuer, scopes } = this.options;
+    return {
+      issuer,
+      authorization_endpoint: new URL(AUTHORIZE_PATH, issuer).href,
+      token_endpoint: new URL(TOKEN_PATH, issuer).href,
+      registration_endpoint: new URL(REGISTER_PATH, issuer).href,
+      scopes_supported: scopes,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      token_endpoint_auth_methods_supported: ["none"],
+      code_challenge_methods_supported: ["S256"],
+    };
+  }
+
+  /**
+   * Serves the authorization server endpoints.
+   *
+   * @returns false if the request is not for one of them
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    const paths = [METADATA_PATH, REGISTER_PATH, AUTHORIZE_PATH, TOKEN_PATH];
+    if (!paths.includes(url.pathname)) {
+      return false;
+    }
+
+    // CORS preflight for browser-based clients
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "content-type, authorization, mcp-protocol-version",
+      }).end();
+      return true;
+    }
+
+    const { maxBodyBytes } = this.options;
+    try {
+      if (req.method === "GET" && url.pathname === METADATA_PATH) {
+        sendJson(res, 200, this.metadata());
+      } else if (req.method === "POST" && url.pathname === REGISTER_PATH) {
+        sendJson(res, 201, this.register(JSON.parse(await readText(req, maxBodyBytes) || "{}")));
+      } else if (req.method === "GET" && url.pathname === AUTHORIZE_PATH) {
+        this.showSignIn(res, url.searchParams);
+      } else if (req.method === "POST" && url.pathname === AUTHORIZE_PATH) {
+        this.authorize(res, await readFormBody(req, maxBodyBytes));
+      } else if (req.method === "POST" && url.pathname === TOKEN_PATH) {
+        sendJson(res, 200, this.exchange(await readFormBody(req, maxBodyBytes)));
+      } else {
+        res.writeHead(405, { Allow: url.pathname === METADATA_PATH ? "GET" : "GET, POST" }).end("Method Not Allowed");
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendOAuthError(res, new InvalidClientMetadataError("Invalid JSON body"));
+      } else if (error instanceof PayloadTooLargeError) {
+        sendJson(res, 413, new InvalidRequestError(error.message).toResponseObject());
+      } else if (error instanceof OAuthError) {
+        sendOAuthError(res, error);
+      } else {
+        logger.error("Dev authorization server request failed", { path: url.pathname, error });
+        sendOAuthError(res, new ServerError("Internal server error"));
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Resolves one of this server's access tokens to the user and scopes it was issued for.
+   */
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const grant = this.accessTokens.get(token);
+    if (!grant || grant.expiresAt < Date.now()) {
+      this.accessTokens.delete(token);
+      throw new InvalidTokenError("Invalid or expired access token");
+    }
+
+    return {
+      token,
+      clientId: grant.clientId,
+      scopes: grant.scopes,
+      expiresAt: Math.floor(grant.expiresAt / 1000),
+      resource: new URL(this.options.resource),
+      extra: { sub: grant.userId },
+    };
+  }
+
+  /**
+   * Dynamic client registration. Every client is public and must use PKCE.
+   */
+  private register(body: unknown): OAuthClientInformationFull {
+    const parsed = OAuthClientMetadataSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new InvalidClientMetadataError(parsed.error.issues.map((i) => i.message).join(", "));
+    }
+
+    const client: OAuthClientInformationFull = {
+      ...parsed.data,
+      token_endpoint_auth_method: "none",
+      client_id: randomUUID(),
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+    };
+    this.clients.set(client.client_id, client);
+    logger.info("Dev auth server: registered client", { clientId: client.client_id, clientName: client.client_name });
+    return client;
+  }
+
+  /**
+   * Looks up a client and checks the redirect URI it asked for.
+   *
+   * @throws InvalidClientError or InvalidRequestError
+   */
+  private checkClient(clientId: string | null, redirectUri: string | null): OAuthClientInformationFull {
+    const client = clientId ? this.clients.get(clientId) : undefined;
+    if (!client) {
+      throw new InvalidClientError("Unknown client_id");
+    }
+    if (!redirectUri || !client.redirect_uris.includes(redirectUri)) {
+      throw new InvalidRequestError("Unregistered redirect_uri");
+    }
+    return client;
+  }
+
+  /**
+   * Checks an authorization request. Errors about the client or redirect URI are thrown; the
+   * rest are reported back to the client's redirect URI.
+   *
+   * @returns the validated scopes, or an error to redirect with
+   */
+  private checkAuthorizationRequest(params: URLSearchParams): { scopes: string[] } | { error: OAuthError } {
+    const { scopes: supported, resource } = this.options;
+
+    if (params.get("response_type") !== "code") {
+      return { error: new InvalidRequestError("response_type must be code") };
+    }
+    if (!params.get("code_challenge") || params.get("code_challenge_method") !== "S256") {
+      return { error: new InvalidRequestError("PKCE with code_challenge_method S256 is required") };
+    }
+    const requestedResource = params.get("resource");
+    if (requestedResource && requestedResource !== resource) {
+      return { error: new InvalidRequestError(`Unknown resource, expected ${resource}`) };
+    }
+    const scopes = params.get("scope")?.split(" ").filter(Boolean) ?? supported;
+    if (scopes.some((s) => !supported.includes(s))) {
+      return { error: new InvalidScopeError(`Supported scopes: ${supported.join(" ")}`) };
+    }
+    return { scopes: scopes.length ? scopes : supported };
+  }
+
+  /**
+   * Redirects back to the client with an authorization error.
+   */
+  private redirectWithError(res: ServerResponse, params: URLSearchParams, error: OAuthError) {
+    const target = new URL(params.get("redirect_uri")!);
+    target.searchParams.set("error", error.errorCode);
+    target.searchParams.set("error_description", error.message);
+    const state = params.get("state");
+    if (state) target.searchParams.set("state", state);
+    res.writeHead(302, { Location: target.href }).end();
+  }
+
+  /**
+   * GET /oauth/authorize: validates the request and shows the sign-in page.
+   */
+  private showSignIn(res: ServerResponse, params: URLSearchParams) {
+    const client = this.checkClient(params.get("client_id"), params.get("redirect_uri"));
+    const checked = this.checkAuthorizationRequest(params);
+    if ("error" in checked) {
+      this.redirectWithError(res, params, checked.error);
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" })
+      .end(renderSignInPage(client.client_name ?? client.client_id, params));
+  }
+
+  /**
+   * POST /oauth/authorize: signs the user in and redirects back with an authorization code.
+   */
+  private authorize(res: ServerResponse, params: URLSearchParams) {
+    const client = this.checkClient(params.get("client_id"), params.get("redirect_uri"));
+    const checked = this.checkAuthorizationRequest(params);
+    if ("error" in checked) {
+      this.redirectWithError(res, params, checked.error);
+      return;
+    }
+    const userId = params.get("username")?.trim();
+    if (!userId) {
+      this.redirectWithError(res, params, new InvalidRequestError("Missing user name"));
+      return;
+    }
+
+    const code = randomToken();
+    this.codes.set(code, {
+      clientId: client.client_id,
+      userId,
+      redirectUri: params.get("redirect_uri")!,
+      codeChallenge: params.get("code_challenge")!,
+      scopes: checked.scopes,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const target = new URL(params.get("redirect_uri")!);
+    target.searchParams.set("code", code);
+    const state = params.get("state");
+    if (state) target.searchParams.set("state", state);
+    logger.info("Dev auth server: signed in", { userId, clientId: client.client_id, clientName: client.client_name });
+    res.writeHead(302, { Location: target.href }).end();
+  }
+
+  /**
+   * POST /oauth/token: authorization_code and refresh_token grants.
+   */
+  private exchange(params: URLSearchParams): OAuthTokens {
+    const clientId = params.get("client_id");
+    if (!clientId || !this.clients.has(clientId)) {
+      throw new InvalidClientError("Unknown client_id");
+    }
+    const requestedResource = params.get("resource");
+    if (requestedResource && requestedResource !== this.options.resource) {
+      throw new InvalidRequestError(`Unknown resource, expected ${this.options.resource}`);
+    }
+
+    switch (params.get("grant_type")) {
+      case "authorization_code": {
+        const code = params.get("code") ?? "";
+        const pending = this.codes.get(code);
+        this.codes.delete(code); // Codes are single use
+        if (!pending || pending.expiresAt < Date.now() || pending.clientId !== clientId) {
+          throw new InvalidGrantError("Invalid or expired authorization code");
+        }
+        if (params.get("redirect_uri") && params.get("redirect_uri") !== pending.redirectUri) {
+          throw new InvalidGrantError("redirect_uri does not match the authorization request");
+        }
+        const challenge = createHash("sha256").update(params.get("code_verifier") ?? "").digest("base64url");
+        if (challenge !== pending.codeChallenge) {
+          throw new InvalidGrantError("code_verifier does not match the code challenge");
+        }
+        return this.issueTokens(clientId, pending.userId, pending.scopes);
+      }
+
+      case "refresh_token": {
+        const refreshToken = params.get("refresh_token") ?? "";
+        const grant = this.refreshTokens.get(refreshToken);
+        this.refreshTokens.delete(refreshToken); // Refresh tokens rotate
+        if (!grant || grant.expiresAt < Date.now() || grant.clientId !== clientId) {
+          throw new InvalidGrantError("Invalid or expired refresh token");
+        }
+        const scopes = params.get("scope")?.split(" ").filter(Boolean) ?? grant.scopes;
+        if (scopes.some((s) => !grant.scopes.includes(s))) {
+          throw new InvalidScopeError("Cannot widen the scopes of a refresh token");
+        }
+        return this.issueTokens(clientId, grant.userId, scopes);
+      }
+
+      default:
+        throw new UnsupportedGrantTypeError("Supported grant types: authorization_code, refresh_token");
+    }
+  }
+
+  /**
+   * Issues a new access token and refresh token.
+   */
+  private issueTokens(clientId: string, userId: string, scopes: string[]): OAuthTokens {
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    const now = Date.now();
+    this.accessTokens.set(accessToken, { clientId, userId, scopes, expiresAt: now + ACCESS_TOKEN_TTL_MS });
+    this.refreshTokens.set(refreshToken, { clientId, userId, scopes, expiresAt: now + REFRESH_TOKEN_TTL_MS });
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_MS / 1000,
+      refresh_token: refreshToken,
+      scope: scopes.join(" "),
+    };
+  }
+}
@@ -0,0 +1,71 @@
+// EVENTSTORE.TS
+/**
+ * In-memory event store for Streamable HTTP resumability.
+ *
+ * Every message the server sends on a Streamable HTTP stream is recorded here with an event ID.
+ * When a client reconnects with a `Last-Event-ID` header, the transport replays everything sent
+ * on that stream after the given event, so a dropped connection does not lose responses.
+ *
+ * One store is created per session and discarded with it. Only the most recent events are kept,
+ * which bounds memory for long-lived sessions.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Maximum number of events retained per session before the oldest are dropped
+const DEFAULT_MAX_EVENTS = 1000;
+
+// ------------------------------------------------------------------------------------------------
+// EVENT STORE
+// ------------------------------------------------------------------------------------------------
+export class InMemoryEventStore implements EventStore {
+  // Map preserves insertion order, so iteration is chronological
+  private readonly events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private counter = 0;
+
+  constructor(private readonly maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.counter}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Drop the oldest event once the cap is reached
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest !== undefined) this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) return "";
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (streamId !== last.streamId) continue;
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found) await send(eventId, message);
+    }
+
+    return last.streamId;
+  }
+}
@@ -0,0 +1,112 @@
+// LIMITS.TEST.TS
+/**
+ * Tests for the token-bucket rate limiter and the array length and nesting limits.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+
+import { MAX_NESTING_DEPTH, TokenBucketLimiter, findLimitViolation } from "./limits.js";
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Wraps `value` in `levels` arrays.
+ */
+function nested(levels: number, value: unknown = "leaf"): unknown {
+  let result = value;
+  for (let i = 0; i < levels; i++) result = [result];
+  return result;
+}
+
+// ------------------------------------------------------------------------------------------------
+// TESTS
+// ------------------------------------------------------------------------------------------------
+describe("TokenBucketLimiter", () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    mock.method(Date, "now", () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("allows a burst up to capacity, then refuses with a retry delay", () => {
+    const limiter = new TokenBucketLimiter({ capacity: 3, refillPerSecond: 0.5 });
+
+    for (let i = 0; i < 3; i++) assert.deepEqual(limiter.take("a"), { allowed: true });
+    assert.deepEqual(limiter.take("a"), { allowed: false, retryAfterSeconds: 2 });
+  });
+
+  it("keeps a bucket per key", () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 1 });
+
+    assert.equal(limiter.take("a").allowed, true);
+    assert.equal(limiter.take("a").allowed, false);
+    assert.equal(limiter.take("b").allowed, true);
+  });
+
+  it("refills over time, but never past capacity", () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, refillPerSecond: 1 });
+    limiter.take("a", 2);
+
+    now += 1000;
+    assert.equal(limiter.take("a").allowed, true);
+    assert.equal(limiter.take("a").allowed, false);
+
+    now += 60_000;
+    assert.equal(limiter.take("a", 2).allowed, true);
+    assert.equal(limiter.take("a").allowed, false);
+  });
+
+  it("lets a cost above capacity empty a full bucket instead of refusing it forever", () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, refillPerSecond: 1 });
+
+    assert.equal(limiter.take("a", 5).allowed, true);
+    assert.deepEqual(limiter.take("a", 5), { allowed: false, retryAfterSeconds: 2 });
+  });
+
+  it("starts a deleted key with a full bucket again", () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1, refillPerSecond: 0.01 });
+    limiter.take("a");
+
+    limiter.delete("a");
+    assert.equal(limiter.take("a").allowed, true);
+  });
+});
+
+describe("findLimitViolation", () => {
+  it("accepts a message within the limits", () => {
+    const message = { jsonrpc: "2.0", id: 1, method: "tools/call", params: { arguments: { todos: [{ id: "1" }] } } };
+    assert.equal(findLimitViolation(message, 10), null);
+  });
+
+  it("finds an oversized array nested inside objects and arrays", () => {
+    const message = [{ params: { arguments: { todos: [[], Array.from({ length: 11 }, () => 0)] } } }];
+    assert.equal(findLimitViolation(message, 10), "Array of 11 items exceeds the limit of 10");
+  });
+
+  it("counts a batch as an array", () => {
+    assert.equal(findLimitViolation([{}, {}, {}], 2), "Array of 3 items exceeds the limit of 2");
+  });
+
+  it("accepts nesting up to the depth limit and refuses one level more", () => {
+    assert.equal(findLimitViolation(nested(MAX_NESTING_DEPTH), 10), null);
+    assert.equal(
+      findLimitViolation(nested(MAX_NESTING_DEPTH + 1), 10),
+      `Nesting exceeds the limit of ${MAX_NESTING_DEPTH} levels`
+    );
+  });
+
+  it("refuses nesting far deeper than the call stack allows without throwing", () => {
+    const deep = JSON.parse(`${"[".repeat(200_000)}${"]".repeat(200_000)}`);
+    assert.match(findLimitViolation(deep, 10) ?? "", /^Nesting exceeds/);
+  });
+});
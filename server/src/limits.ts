@@ -0,0 +1,165 @@
+// LIMITS.TS
+/**
+ * Request limits applied to MCP message posts before they reach a transport.
+ *
+ * - Body size: bodies over the limit are refused without reading the rest (413)
+ * - Array length: messages containing an array longer than the limit are refused (400), which
+ *   bounds batch sizes and tool arguments such as save-todo-state's `todos` before validation
+ * - Nesting: messages nested deeper than MAX_NESTING_DEPTH are refused (400); no MCP message
+ *   comes close, and the check itself walks the message without recursion
+ * - Rate: token buckets per key (the server keeps one limiter per session and one per user);
+ *   each JSON-RPC message in a post takes one token, and an empty bucket means 429
+ *
+ * Tool schemas in mcp-app-shared carry their own, tighter `.max()` limits; those are checked by
+ * the SDK and answered as invalid params.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { IncomingMessage } from "node:http";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+export type TokenBucketOptions = {
+  capacity: number;          // Most tokens a bucket holds, i.e. the allowed burst
+  refillPerSecond: number;   // Tokens added back per second
+};
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;   // Epoch milliseconds of the last refill
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// How often buckets that have refilled completely are dropped (ms)
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Deepest nesting of arrays and objects accepted in a message (a save-todo-state call nests 5)
+export const MAX_NESTING_DEPTH = 32;
+
+// ------------------------------------------------------------------------------------------------
+// ERRORS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Thrown when a request body is larger than allowed.
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(readonly limitBytes: number) {
+    super(`Request body exceeds ${limitBytes} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads a request body, stopping as soon as it grows past `maxBytes`.
+ *
+ * @throws PayloadTooLargeError if Content-Length or the received bytes exceed `maxBytes`
+ */
+export async function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(req.headers["content-length"]);
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    received += buffer.length;
+    if (received > maxBytes) {
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Checks a parsed JSON message for an array longer than `maxArrayLength` or nesting deeper than
+ * `maxDepth`. Walks the message with an explicit stack, so deep nesting cannot overflow the call
+ * stack.
+ *
+ * @returns Why the message is refused, or null if it is within both limits
+ */
+export function findLimitViolation(
+  value: unknown,
+  maxArrayLength: number,
+  maxDepth = MAX_NESTING_DEPTH
+): string | null {
+  const pending: { value: unknown; depth: number }[] = [{ value, depth: 1 }];
+  while (pending.length > 0) {
+    const { value, depth } = pending.pop()!;
+    if (typeof value !== "object" || value === null) continue;
+
+    if (depth > maxDepth) {
+      return `Nesting exceeds the limit of ${maxDepth} levels`;
+    }
+    if (Array.isArray(value) && value.length > maxArrayLength) {
+      return `Array of ${value.length} items exceeds the limit of ${maxArrayLength}`;
+    }
+    for (const item of Object.values(value)) {
+      pending.push({ value: item, depth: depth + 1 });
+    }
+  }
+  return null;
+}
+
+/**
+ * Token-bucket rate limiter with one bucket per key. Buckets start full.
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly options: TokenBucketOptions) {
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Takes `cost` tokens from the bucket of `key`, if it holds that many.
+   */
+  take(key: string, cost = 1): RateLimitResult {
+    const bucket = this.refill(key);
+    // A cost above capacity could never be met; it empties a full bucket instead
+    const needed = Math.min(cost, this.options.capacity);
+
+    if (bucket.tokens >= needed) {
+      bucket.tokens -= needed;
+      return { allowed: true };
+    }
+    const retryAfterSeconds = Math.ceil((needed - bucket.tokens) / this.options.refillPerSecond);
+    return { allowed: false, retryAfterSeconds: Math.max(1, retryAfterSeconds) };
+  }
+
+  /**
+   * Forgets a key, e.g. when its session closes.
+   */
+  delete(key: string) {
+    this.buckets.delete(key);
+  }
+
+  private refill(key: string): Bucket {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: this.options.capacity, updatedAt: now };
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.options.capacity, bucket.tokens + elapsedSeconds * this.options.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // Full buckets behave exactly like missing ones, so they can be dropped
+  private sweep() {
+    for (const key of this.buckets.keys()) {
+      if (this.refill(key).tokens >= this.options.capacity) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// LOGGER.TS
+/**
+ * Structured JSON logger.
+ *
+ * Every line is one JSON object with `time`, `level`, `msg` and the fields bound to the logger, e.g.
+ *   {"time":"...","level":"info","msg":"Session opened","requestId":"...","sessionId":"...","transport":"sse"}
+ *
+ * Correlation ids are bound with `child()`:
+ * - requestId: one per HTTP request, taken from `X-Request-Id` or generated, and echoed back
+ * - sessionId: the MCP session the request belongs to
+ * - rpcId: the JSON-RPC id of the MCP request a tool handler is serving
+ * Inside an OpenTelemetry span (see tracing.ts) lines also carry `traceId` and `spanId`.
+ *
+ * LOG_LEVEL sets the minimum level (debug, info, warn, error; default info).
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { IncomingHttpHeaders } from "node:http";
+
+import { trace } from "@opentelemetry/api";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * The part of a tool handler's `extra` argument that identifies the request.
+ */
+export type RequestExtra = {
+  sessionId?: string;
+  requestId: string | number;                    // JSON-RPC id
+  requestInfo?: { headers: IncomingHttpHeaders };
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Header carrying the HTTP request id, read from clients and proxies and set on responses
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Longest request id accepted from a client; longer ones are replaced
+const MAX_REQUEST_ID_LENGTH = 128;
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads LOG_LEVEL, falling back to info.
+ */
+function levelFromEnv(): LogLevel {
+  const level = process.env.LOG_LEVEL?.trim().toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : "info";
+}
+
+/**
+ * Makes field values JSON-friendly: errors become `{name, message, stack}`.
+ */
+function serializeFields(fields: LogFields): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [
+        name,
+        value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value,
+      ])
+  );
+}
+
+/**
+ * Returns the request id a client sent, if it is usable as a log field.
+ */
+export function incomingRequestId(headers: IncomingHttpHeaders): string | undefined {
+  const value = headers[REQUEST_ID_HEADER];
+  const id = Array.isArray(value) ? value[0] : value;
+  return id && id.length <= MAX_REQUEST_ID_LENGTH && /^[\w.:-]+$/.test(id) ? id : undefined;
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Writes JSON log lines with a set of bound fields. warn and error go to stderr, the rest to stdout.
+ */
+export class Logger {
+  constructor(
+    private readonly fields: LogFields = {},
+    private readonly minLevel: LogLevel = levelFromEnv()
+  ) {}
+
+  /**
+   * Returns a logger that adds `fields` to every line.
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.minLevel);
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}) {
+    if (LEVELS[level] < LEVELS[this.minLevel]) return;
+
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...serializeFields({ ...this.fields, ...fields }),
+      ...(spanContext && { traceId: spanContext.traceId, spanId: spanContext.spanId }),
+    });
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+}
+
+// Process-wide root logger
+export const logger = new Logger();
+
+/**
+ * Logger for a tool handler or other MCP request handler, bound to the session, HTTP request
+ * and JSON-RPC ids found in the handler's `extra` argument.
+ */
+export function requestLogger(extra: RequestExtra): Logger {
+  const headers = extra.requestInfo?.headers;
+  return logger.child({
+    requestId: headers && incomingRequestId(headers),
+    sessionId: extra.sessionId,
+    rpcId: extra.requestId,
+  });
+}
@@ -0,0 +1,198 @@
+// METRICS.TS
+/**
+ * Prometheus metrics for the MCP server, served as text at GET /metrics.
+ *
+ * - mcp_active_sessions: open sessions, read when scraped
+ * - mcp_tool_calls_total, mcp_tool_call_errors_total, mcp_tool_call_duration_seconds: per tool name
+ * - mcp_resource_reads_total: per resource URI
+ *
+ * Tool calls and resource reads are recorded by wrapping their callbacks where they are registered
+ * (`wrapTool` and `wrapResource`). A tool call counts as an error when its handler throws or
+ * returns `isError: true`. Calls the SDK rejects before the handler runs (invalid arguments) are
+ * not counted.
+ *
+ * The exposition format is written by hand; the few metric types needed here do not warrant
+ * a client library.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { ServerResponse } from "node:http";
+
+import type { ReadResourceCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+type Histogram = {
+  buckets: number[];   // Cumulative counts, one per DURATION_BUCKETS entry
+  sum: number;
+  count: number;
+};
+
+/**
+ * A tool callback, with or without arguments (the SDK's `ToolCallback`, for any input schema).
+ */
+export type ToolHandler<Args extends unknown[]> = (...args: Args) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Values read at scrape time instead of being recorded as they change.
+ */
+export type MetricsSnapshot = {
+  activeSessions: number;
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Upper bounds of the tool call duration buckets (seconds)
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Content type of the Prometheus text exposition format
+const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Escapes a label value for the exposition format.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+/**
+ * Renders a `{name="value"}` label set.
+ */
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Metrics shared by every session of the process.
+ */
+export class ServerMetrics {
+  private readonly toolCalls = new Map<string, number>();
+  private readonly toolErrors = new Map<string, number>();
+  private readonly toolDurations = new Map<string, Histogram>();
+  private readonly resourceReads = new Map<string, number>();
+
+  /**
+   * Records one finished tool call.
+   */
+  recordToolCall(tool: string, seconds: number, failed: boolean) {
+    this.toolCalls.set(tool, (this.toolCalls.get(tool) ?? 0) + 1);
+    if (failed) {
+      this.toolErrors.set(tool, (this.toolErrors.get(tool) ?? 0) + 1);
+    }
+
+    const histogram = this.toolDurations.get(tool) ?? { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    DURATION_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) histogram.buckets[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+    this.toolDurations.set(tool, histogram);
+  }
+
+  /**
+   * Records one resource read.
+   */
+  recordResourceRead(uri: string) {
+    this.resourceReads.set(uri, (this.resourceReads.get(uri) ?? 0) + 1);
+  }
+
+  /**
+   * Wraps the callback of tool `tool` so every call is recorded.
+   */
+  wrapTool<Args extends unknown[]>(tool: string, handler: ToolHandler<Args>): ToolHandler<Args> {
+    return async (...args) => {
+      const start = performance.now();
+      let failed = true;
+      try {
+        const result = await handler(...args);
+        failed = result.isError === true;
+        return result;
+      } finally {
+        this.recordToolCall(tool, (performance.now() - start) / 1000, failed);
+      }
+    };
+  }
+
+  /**
+   * Wraps the callback of a resource so every read is recorded.
+   */
+  wrapResource(handler: ReadResourceCallback): ReadResourceCallback {
+    return (uri, extra) => {
+      this.recordResourceRead(uri.href);
+      return handler(uri, extra);
+    };
+  }
+
+  /**
+   * Renders every metric in the Prometheus text format.
+   */
+  render(snapshot: MetricsSnapshot): string {
+    const lines: string[] = [];
+
+    lines.push(
+      "# HELP mcp_active_sessions Open MCP sessions.",
+      "# TYPE mcp_active_sessions gauge",
+      `mcp_active_sessions ${snapshot.activeSessions}`
+    );
+
+    lines.push(
+      "# HELP mcp_tool_calls_total Tool calls handled, by tool name.",
+      "# TYPE mcp_tool_calls_total counter"
+    );
+    for (const [tool, count] of this.toolCalls) {
+      lines.push(`mcp_tool_calls_total${labels({ tool })} ${count}`);
+    }
+
+    lines.push(
+      "# HELP mcp_tool_call_errors_total Tool calls that threw or returned isError, by tool name.",
+      "# TYPE mcp_tool_call_errors_total counter"
+    );
+    for (const tool of this.toolCalls.keys()) {
+      lines.push(`mcp_tool_call_errors_total${labels({ tool })} ${this.toolErrors.get(tool) ?? 0}`);
+    }
+
+    lines.push(
+      "# HELP mcp_tool_call_duration_seconds Time spent in tool handlers, by tool name.",
+      "# TYPE mcp_tool_call_duration_seconds histogram"
+    );
+    for (const [tool, histogram] of this.toolDurations) {
+      DURATION_BUCKETS.forEach((bound, i) => {
+        lines.push(`mcp_tool_call_duration_seconds_bucket${labels({ tool, le: String(bound) })} ${histogram.buckets[i]}`);
+      });
+      lines.push(
+        `mcp_tool_call_duration_seconds_bucket${labels({ tool, le: "+Inf" })} ${histogram.count}`,
+        `mcp_tool_call_duration_seconds_sum${labels({ tool })} ${histogram.sum}`,
+        `mcp_tool_call_duration_seconds_count${labels({ tool })} ${histogram.count}`
+      );
+    }
+
+    lines.push(
+      "# HELP mcp_resource_reads_total Resource reads, by resource URI.",
+      "# TYPE mcp_resource_reads_total counter"
+    );
+    for (const [resource, count] of this.resourceReads) {
+      lines.push(`mcp_resource_reads_total${labels({ resource })} ${count}`);
+    }
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Answers a GET /metrics request.
+   */
+  handleRequest(res: ServerResponse, snapshot: MetricsSnapshot) {
+    res.writeHead(200, { "Content-Type": CONTENT_TYPE, "Cache-Control": "no-store" }).end(this.render(snapshot));
+  }
+}
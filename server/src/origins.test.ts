@@ -0,0 +1,120 @@
+// ORIGINS.TEST.TS
+/**
+ * Tests for the Host and Origin checks and CORS preflights of the MCP endpoints, over HTTP.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import assert from "node:assert/strict";
+import http, { type IncomingHttpHeaders, type OutgoingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import { LOCAL_HOSTS, LOCAL_ORIGINS, OriginPolicy } from "./origins.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+type TestResponse = { status: number; headers: IncomingHttpHeaders; body: string };
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Sends a request with exactly the given headers (fetch would not let a test set Host).
+ */
+function request(port: number, method: string, headers: OutgoingHttpHeaders): Promise<TestResponse> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ port, method, path: "/mcp", headers }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+    });
+    req.on("error", reject);
+    req.end(method === "POST" ? "{}" : undefined);
+  });
+}
+
+// ------------------------------------------------------------------------------------------------
+// TESTS
+// ------------------------------------------------------------------------------------------------
+describe("OriginPolicy.handleRequest", () => {
+  // The default policy: local hosts and local pages only
+  const policy = new OriginPolicy({ allowedOrigins: LOCAL_ORIGINS, allowedHosts: LOCAL_HOSTS });
+  const server = http.createServer((req, res) => {
+    if (policy.handleRequest(req, res).handled) return;
+    res.writeHead(200).end("passed");
+  });
+  let port: number;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("answers a preflight from an allowed origin with 204 and CORS headers", async () => {
+    const res = await request(port, "OPTIONS", {
+      Host: `localhost:${port}`,
+      Origin: "http://localhost:5173",
+      "Access-Control-Request-Method": "POST",
+      "Access-Control-Request-Headers": "content-type, mcp-session-id",
+    });
+
+    assert.equal(res.status, 204);
+    assert.equal(res.headers["access-control-allow-origin"], "http://localhost:5173");
+    assert.match(res.headers["access-control-allow-methods"] ?? "", /\bPOST\b/);
+    assert.match(res.headers["access-control-allow-headers"] ?? "", /\bmcp-session-id\b/);
+    assert.match(res.headers["access-control-expose-headers"] ?? "", /\bmcp-session-id\b/);
+    assert.equal(res.headers.vary, "Origin");
+  });
+
+  it("rejects a preflight from a disallowed origin without CORS headers", async () => {
+    const res = await request(port, "OPTIONS", {
+      Host: `localhost:${port}`,
+      Origin: "https://evil.example",
+      "Access-Control-Request-Method": "POST",
+    });
+
+    assert.equal(res.status, 403);
+    assert.equal(res.headers["access-control-allow-origin"], undefined);
+  });
+
+  it("rejects a POST with a disallowed Origin with a JSON-RPC error", async () => {
+    const res = await request(port, "POST", {
+      Host: `localhost:${port}`,
+      Origin: "https://evil.example",
+      "Content-Type": "application/json",
+    });
+
+    assert.equal(res.status, 403);
+    assert.deepEqual(JSON.parse(res.body), {
+      jsonrpc: "2.0",
+      error: { code: -32000, message: 'Forbidden: Origin "https://evil.example" is not allowed' },
+      id: null,
+    });
+  });
+
+  it("rejects a request with a disallowed Host (DNS rebinding)", async () => {
+    const res = await request(port, "POST", {
+      Host: `rebound.example:${port}`,
+      Origin: `http://rebound.example:${port}`,
+      "Content-Type": "application/json",
+    });
+
+    assert.equal(res.status, 403);
+    assert.match(JSON.parse(res.body).error.message, /Host "rebound\.example:\d+" is not allowed/);
+  });
+
+  it("passes an allowed request without an Origin on to the caller", async () => {
+    const res = await request(port, "POST", { Host: `127.0.0.1:${port}`, "Content-Type": "application/json" });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body, "passed");
+  });
+});
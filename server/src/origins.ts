@@ -0,0 +1,162 @@
+// ORIGINS.TS
+/**
+ * Origin allowlist, CORS headers and DNS-rebinding protection for the MCP endpoints.
+ *
+ * - Host: the Host header must name this server (localhost, the host of BASE_URL, or one listed
+ *   in cors.allowedHosts / ALLOWED_HOSTS). A web page whose domain was re-pointed at 127.0.0.1
+ *   (DNS rebinding) still sends its own domain as Host, so its requests are rejected.
+ * - Origin: browser requests carry an Origin, which must be in the allowlist. Requests without
+ *   one (ChatGPT's backend, curl, MCP clients outside a browser) are not cross-origin and pass.
+ * - CORS: allowed origins are echoed in Access-Control-Allow-Origin (with `Vary: Origin`),
+ *   so a disallowed page cannot read responses even where it could send a request.
+ *
+ * Origins are matched exactly (`https://app.example.com`), with a port wildcard
+ * (`http://localhost:*`), or `*` for any origin. Disallowed requests, CORS preflights included,
+ * are answered with 403 and a JSON-RPC error; allowed preflights with 204.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+export type OriginPolicyOptions = {
+  allowedOrigins: string[];   // Origin patterns, see the module comment
+  allowedHosts: string[];     // Host names (without port), or "*" to skip the Host check
+};
+
+/**
+ * Outcome of checking a request: allowed, or the reason it is rejected.
+ */
+export type OriginCheck = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * What `handleRequest` did with a request: `handled` is true when it sent the response.
+ */
+export type OriginHandling = { check: OriginCheck; handled: boolean };
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Hosts a local server is always reachable under
+export const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+// Origins allowed when none are configured (cors.allowedOrigins / CORS_ALLOWED_ORIGINS):
+// local pages such as the host emulator
+export const LOCAL_ORIGINS = ["http://localhost:*", "http://127.0.0.1:*", "http://[::1]:*"];
+
+// CORS headers that do not depend on the request's origin
+const CORS_BASE_HEADERS = {
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "content-type, authorization, mcp-session-id, mcp-protocol-version, last-event-id, x-request-id",
+  "Access-Control-Expose-Headers": "mcp-session-id, www-authenticate, x-request-id",
+};
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Returns the first value of a request header.
+ */
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Strips the port from a Host header value (`localhost:8000` -> `localhost`, `[::1]:8000` -> `[::1]`).
+ */
+function hostName(host: string): string {
+  return host.toLowerCase().replace(/:\d+$/, "");
+}
+
+/**
+ * Whether an origin matches one pattern: exact, `scheme://host:*`, or `*`.
+ */
+function originMatches(origin: string, pattern: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith(":*")) {
+    const base = pattern.slice(0, -2);
+    return origin === base || (origin.startsWith(`${base}:`) && /^\d+$/.test(origin.slice(base.length + 1)));
+  }
+  return origin === pattern.replace(/\/+$/, "");
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Decides which hosts and origins may use the MCP endpoints and builds their CORS headers.
+ */
+export class OriginPolicy {
+  private readonly allowedOrigins: string[];
+  private readonly allowedHosts: Set<string> | null;
+
+  constructor({ allowedOrigins, allowedHosts }: OriginPolicyOptions) {
+    this.allowedOrigins = allowedOrigins.map((origin) => origin.toLowerCase());
+    this.allowedHosts = allowedHosts.includes("*") ? null : new Set(allowedHosts.map(hostName));
+  }
+
+  /**
+   * Checks the Host and Origin headers of a request.
+   */
+  check(req: IncomingMessage): OriginCheck {
+    const host = header(req, "host");
+    if (this.allowedHosts && (!host || !this.allowedHosts.has(hostName(host)))) {
+      return { allowed: false, reason: `Host "${host ?? ""}" is not allowed` };
+    }
+
+    const origin = header(req, "origin");
+    if (origin !== undefined && !this.isOriginAllowed(origin)) {
+      return { allowed: false, reason: `Origin "${origin}" is not allowed` };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Applies the policy to a request for an MCP endpoint. Disallowed requests get a 403 and
+   * allowed CORS preflights a 204; other allowed requests get their CORS headers and are left
+   * to the caller.
+   */
+  handleRequest(req: IncomingMessage, res: ServerResponse): OriginHandling {
+    const check = this.check(req);
+    if (!check.allowed) {
+      res.writeHead(403, { "Content-Type": "application/json" }).end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message: `Forbidden: ${check.reason}` }, id: null })
+      );
+      return { check, handled: true };
+    }
+
+    for (const [name, value] of Object.entries(this.corsHeaders(req))) {
+      res.setHeader(name, value);
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return { check, handled: true };
+    }
+    return { check, handled: false };
+  }
+
+  isOriginAllowed(origin: string): boolean {
+    const normalized = origin.toLowerCase();
+    return this.allowedOrigins.some((pattern) => originMatches(normalized, pattern));
+  }
+
+  /**
+   * CORS headers for a response to an allowed request. The request's origin is echoed, or `*`
+   * when every origin is allowed.
+   */
+  corsHeaders(req: IncomingMessage): Record<string, string> {
+    const origin = header(req, "origin");
+    const allowOrigin = this.allowedOrigins.includes("*") ? "*" : origin;
+    return {
+      ...CORS_BASE_HEADERS,
+      ...(allowOrigin && { "Access-Control-Allow-Origin": allowOrigin }),
+      Vary: "Origin",
+    };
+  }
+}
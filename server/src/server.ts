@@ -9,8 +9,27 @@
  * - Provides tools that ChatGPT can call to display widgets
  * 
  * Endpoints:
- * - GET  /mcp - SSE stream for MCP protocol
- * - POST /mcp/messages - Message handling for MCP
+ * - POST   /mcp - Streamable HTTP: client-to-server messages (initialize opens a session)
+ * - GET    /mcp - Streamable HTTP: server-to-client stream (with Mcp-Session-Id header)
+ * - DELETE /mcp - Streamable HTTP: terminate a session (with Mcp-Session-Id header)
+ * - GET    /mcp - Legacy SSE stream (without Mcp-Session-Id header, deprecated)
+ * - POST   /mcp/messages - Legacy SSE message handling (deprecated)
+ * - GET    /.well-known/oauth-protected-resource - OAuth protected resource metadata (when auth is on)
+ * - /.well-known/oauth-authorization-server, /oauth/* - Bundled dev authorization server (AUTH_MODE=dev)
+ * - GET    /healthz - Liveness: the process is up
+ * - GET    /readyz - Readiness: widget assets are built and the server is not shutting down
+ * - GET    /metrics - Prometheus metrics (sessions, tool calls, resource reads)
+ * - GET    /<file> - Built widget assets from web/dist (e.g. /assets/todo-3f9a1c2b.js, /todo.html)
+ *
+ * With AUTH_MODE=dev or AUTH_MODE=introspection, every MCP request needs a bearer token.
+ * MCP requests must also come from an allowed Host and Origin (see origins.ts). Message posts are
+ * limited in size, array length and rate before they reach a transport (see limits.ts).
+ *
+ * Logs are JSON lines (logger.ts) carrying a per-request and per-session id; tool calls and
+ * resource reads can also be traced with OpenTelemetry (tracing.ts).
+ *
+ * Sessions expire when idle, are capped in number (503 when full), and are closed cleanly on
+ * SIGTERM/SIGINT before the process exits.
  */
 
 // ------------------------------------------------------------------------------------------------
@@ -21,93 +40,354 @@ import {
   type IncomingMessage,
   type ServerResponse,
 } from "node:http";
-import fs from "node:fs";
-import path from "node:path";
-import { URL, fileURLToPath } from "node:url";
+import { randomUUID } from "node:crypto";
+import { URL } from "node:url";
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type RegisteredResource } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { z } from "zod";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ConfigError, loadConfig, type AppConfig } from "mcp-app-shared/config";
 
-// ------------------------------------------------------------------------------------------------
-// TYPES
-// ------------------------------------------------------------------------------------------------
-/**
- * Session management: Each ChatGPT connection gets its own MCP server instance.
- */
-type SessionRecord = {
-  server: McpServer;           // Isolated MCP server for this session
-  transport: SSEServerTransport;  // SSE connection for this session
-};
+import { StaticAssets } from "./assets.js";
+import {
+  IntrospectionTokenVerifier,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  ResourceServer,
+  TODO_SCOPE,
+  userIdFromAuth,
+  type AuthenticatedRequest,
+} from "./auth.js";
+import { DevAuthorizationServer } from "./devAuthServer.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import {
+  PayloadTooLargeError,
+  TokenBucketLimiter,
+  findLimitViolation,
+  readBody,
+} from "./limits.js";
+import { REQUEST_ID_HEADER, incomingRequestId, logger, type Logger } from "./logger.js";
+import { ServerMetrics } from "./metrics.js";
+import { LOCAL_HOSTS, LOCAL_ORIGINS, OriginPolicy } from "./origins.js";
+import { SessionManager } from "./sessions.js";
+import { WidgetCache, widgetResourceMeta } from "./widgets.js";
+import { createTodoStore, type TodoStore } from "./storage.js";
+import { registerTodoTools } from "./todoTools.js";
+import { initTracing, traceResource } from "./tracing.js";
 
 // ------------------------------------------------------------------------------------------------
 // CONSTANTS
 // ------------------------------------------------------------------------------------------------
-// Calculate paths relative to this file location
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const ROOT_DIR = path.resolve(__dirname, "..", "..");  // Project root directory
-const ASSETS_DIR = path.resolve(ROOT_DIR, "web", "dist");  // Where built components are stored
+// Port, public URL, asset and storage locations, widget sandbox, CORS, auth, session and request
+// limit settings, from environment variables and mcp-app.config.ts (shared with web/build.mts)
+const config = await loadConfigOrExit();
+
+// Shared by every session so what one tool call saves, the next one reads
+const todoStore: TodoStore = createTodoStore(config.storage);
+
+// Widget assets, loaded once and reloaded when web/dist is rebuilt. In external mode the
+// resource HTML references the files served below instead of inlining them
+const widgetCache = new WidgetCache({
+  assetsDir: config.assetsDir,
+  baseUrl: config.baseUrl,
+  external: config.widget.assets === "external",
+});
+
+// The built files of web/dist, served over HTTP with caching headers and compression
+const staticAssets = new StaticAssets(config.assetsDir, { exposeBuildFiles: config.exposeBuildFiles });
+
+// Widget resources registered on each session's server, by widget name
+const widgetResources = new WeakMap<McpServer, Map<string, RegisteredResource>>();
+
+// Session lifecycle settings
+const SESSION_IDLE_TTL_SECONDS = config.sessions.idleTtlSeconds;  // 0 disables expiry
+const MAX_SESSIONS = config.sessions.maxSessions;                 // 0 means no limit
+const SSE_KEEPALIVE_SECONDS = config.sessions.keepaliveSeconds;   // 0 disables keepalives
+const SHUTDOWN_TIMEOUT_SECONDS = config.sessions.shutdownTimeoutSeconds;
+
+// Seconds clients should wait before retrying when no session can be opened
+const RETRY_AFTER_SECONDS = 5;
+
+// Active sessions by session ID, with idle expiry, a size limit and legacy SSE keepalives
+// (each ChatGPT connection gets its own MCP server instance)
+const sessions = new SessionManager({
+  idleTtlMs: SESSION_IDLE_TTL_SECONDS * 1000,
+  maxSessions: MAX_SESSIONS,
+  keepaliveMs: SSE_KEEPALIVE_SECONDS * 1000,
+});
+
+// OpenTelemetry span export, when OTEL_TRACES_EXPORTER is set
+const stopTracing = await initTracing();
 
-// Store active sessions by session ID
-const sessions = new Map<string, SessionRecord>();
+// Request limits for MCP message posts
+const MAX_BODY_BYTES = config.limits.maxBodyBytes;
+const MAX_ARRAY_LENGTH = config.limits.maxArrayLength;
+const SESSION_RATE_LIMIT_PER_MINUTE = config.limits.sessionRatePerMinute;  // 0 disables
+const USER_RATE_LIMIT_PER_MINUTE = config.limits.userRatePerMinute;        // 0 disables
+const RATE_LIMIT_BURST = config.limits.rateLimitBurst;
+
+// Token buckets per session and per user (per session when auth is off)
+const sessionLimiter = SESSION_RATE_LIMIT_PER_MINUTE > 0
+  ? new TokenBucketLimiter({ capacity: RATE_LIMIT_BURST, refillPerSecond: SESSION_RATE_LIMIT_PER_MINUTE / 60 })
+  : null;
+const userLimiter = USER_RATE_LIMIT_PER_MINUTE > 0
+  ? new TokenBucketLimiter({ capacity: RATE_LIMIT_BURST, refillPerSecond: USER_RATE_LIMIT_PER_MINUTE / 60 })
+  : null;
+
+// Tool call and resource read metrics of every session, served at /metrics
+const metrics = new ServerMetrics();
+
+// Set once SIGTERM/SIGINT is received; no new sessions are opened after that
+let shuttingDown = false;
 
 // HTTP endpoint paths
-const ssePath = "/mcp";           // SSE stream endpoint (GET)
-const postPath = "/mcp/messages"; // Message handling endpoint (POST)
+const mcpPath = "/mcp";           // Streamable HTTP endpoint (POST/GET/DELETE), legacy SSE stream (GET)
+const postPath = "/mcp/messages"; // Legacy SSE message handling endpoint (POST)
+
+// Health and metrics endpoint paths
+const healthPath = "/healthz";
+const readyPath = "/readyz";
+const metricsPath = "/metrics";
+
+// Header carrying the Streamable HTTP session ID
+const SESSION_ID_HEADER = "mcp-session-id";
 
 // Server port
-const portEnv = Number(process.env.PORT ?? 8000);
-const port = Number.isFinite(portEnv) ? portEnv : 8000;
+const port = config.port;
+
+// Public URL of this server (e.g. the tunnel URL); OAuth metadata and token audiences use it
+const BASE_URL = config.baseUrl;
+
+// Browser origins (CORS) and Host names allowed on the MCP endpoints. BASE_URL is always allowed;
+// without configured origins, so are local pages such as the host emulator
+const originPolicy = new OriginPolicy({
+  allowedOrigins: [new URL(BASE_URL).origin, ...(config.cors.allowedOrigins ?? LOCAL_ORIGINS)],
+  allowedHosts: [...LOCAL_HOSTS, new URL(BASE_URL).host, ...config.cors.allowedHosts],
+});
+
+// Authentication: none, the bundled dev authorization server, or an external one
+const AUTH_MODE = config.auth.mode;
+const devAuthServer = AUTH_MODE === "dev"
+  ? new DevAuthorizationServer({
+    issuer: BASE_URL,
+    resource: `${BASE_URL}${mcpPath}`,
+    scopes: [TODO_SCOPE],
+    maxBodyBytes: MAX_BODY_BYTES,
+  })
+  : null;
+const resourceServer = AUTH_MODE === "none" ? null : createResourceServer();
 
 // ------------------------------------------------------------------------------------------------
 // HELPER FUNCTIONS
 // ------------------------------------------------------------------------------------------------
 /**
- * Loads widget assets (JS and CSS) and constructs self-contained HTML.
- * Follows the official MCP pattern: read JS/CSS files directly and inline them.
- * 
- * @param componentName - Name of the component (e.g., "todo")
- * @returns Object containing JS, CSS, and constructed HTML
- * @throws Error if required assets cannot be found
+ * Loads the configuration, or logs every invalid setting and exits.
  */
-function loadWidgetAssets(componentName: string): {
-  js: string;
-  css: string;
-  html: string;
-} {
-  if (!fs.existsSync(ASSETS_DIR)) {
-    throw new Error(
-      `Widget assets not found. Expected directory ${ASSETS_DIR}. Run "cd web && pnpm run build" before starting the server.`
-    );
+async function loadConfigOrExit(): Promise<AppConfig> {
+  try {
+    return await loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    logger.error("Invalid configuration", { problems: error.problems });
+    process.exit(1);
   }
+}
 
-  // Load JS file
-  const jsPath = path.join(ASSETS_DIR, `${componentName}.js`);
-  if (!fs.existsSync(jsPath)) {
-    throw new Error(
-      `Widget JS for "${componentName}" not found at ${jsPath}. Run "cd web && pnpm run build" to generate the assets.`
-    );
+/**
+ * Why a new session cannot be opened right now, or null if it can.
+ */
+function sessionRefusal(): string | null {
+  if (shuttingDown) return "Server is shutting down";
+  if (sessions.isFull()) return `Too many sessions (limit ${MAX_SESSIONS})`;
+  return null;
+}
+
+/**
+ * Sets up bearer token checks for the MCP endpoints, verifying tokens with the dev
+ * authorization server or the external one configured in `auth` (AUTH_* variables).
+ * The config schema has already checked that introspection has its issuer and endpoint.
+ */
+function createResourceServer(): ResourceServer {
+  const resource = `${BASE_URL}${mcpPath}`;
+  if (devAuthServer) {
+    return new ResourceServer({
+      resource,
+      authorizationServers: [BASE_URL],
+      requiredScopes: [TODO_SCOPE],
+      verifier: devAuthServer,
+    });
   }
-  const js = fs.readFileSync(jsPath, "utf8");
 
-  // Load CSS file (optional)
-  const cssPath = path.join(ASSETS_DIR, `${componentName}.css`);
-  const css = (() => {
-    try {
-      return fs.readFileSync(cssPath, "utf8");
-    } catch {
-      return ""; // CSS optional
+  const { issuer, introspectionUrl, clientId, clientSecret } = config.auth;
+  return new ResourceServer({
+    resource,
+    authorizationServers: [issuer!],
+    requiredScopes: [TODO_SCOPE],
+    verifier: new IntrospectionTokenVerifier({
+      introspectionUrl: introspectionUrl!,
+      clientId,
+      clientSecret,
+      resource,
+    }),
+  });
+}
+
+/**
+ * Sends a JSON-RPC error response, the format Streamable HTTP clients expect for HTTP-level failures.
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  id: string | number | null = null
+) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id })
+  );
+}
+
+/**
+ * Returns the id of a single JSON-RPC request, so errors about it can name it.
+ */
+function jsonRpcId(body: unknown): string | number | null {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) return null;
+  const { id } = body as { id?: unknown };
+  return typeof id === "string" || typeof id === "number" ? id : null;
+}
+
+/**
+ * Reads an MCP message post and applies the request limits before it is dispatched: body size,
+ * array lengths, then the session's and the user's rate limits (one token per JSON-RPC message).
+ * Answers the request itself with a JSON-RPC error when a limit is exceeded.
+ *
+ * @returns The parsed body, or null if the request was answered
+ */
+async function receiveMessages(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  sessionId: string | null,
+  log: Logger
+): Promise<{ body: unknown } | null> {
+  let body: unknown;
+  try {
+    body = JSON.parse((await readBody(req, MAX_BODY_BYTES)).toString("utf8"));
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      log.warn("Request rejected", { reason: error.message });
+      res.setHeader("Connection", "close");  // The rest of the body is not read
+      sendJsonRpcError(res, 413, -32600, `Invalid Request: ${error.message}`);
+    } else {
+      sendJsonRpcError(res, 400, -32700, "Parse error: Invalid JSON");
     }
-  })();
+    return null;
+  }
+  const id = jsonRpcId(body);
+
+  const reason = findLimitViolation(body, MAX_ARRAY_LENGTH);
+  if (reason !== null) {
+    log.warn("Request rejected", { reason });
+    sendJsonRpcError(res, 400, -32600, `Invalid Request: ${reason}`, id);
+    return null;
+  }
+
+  const cost = Array.isArray(body) ? body.length : 1;
+  // Without auth there is no user: the session stands in for one. Client addresses would put every
+  // client behind a tunnel or proxy into one bucket
+  const userKey = resourceServer ? `user:${userIdFromAuth(req.auth)}` : sessionId && `session:${sessionId}`;
+  const buckets = [
+    { scope: "session", limiter: sessionLimiter, key: sessionId },
+    { scope: "user", limiter: userLimiter, key: userKey },
+  ];
+  for (const { scope, limiter, key } of buckets) {
+    if (!limiter || !key) continue;
+    const result = limiter.take(key, cost);
+    if (!result.allowed) {
+      log.warn("Request rate limited", { scope, key, retryAfterSeconds: result.retryAfterSeconds });
+      res.setHeader("Retry-After", String(result.retryAfterSeconds));
+      sendJsonRpcError(res, 429, -32000, `Rate limit exceeded for this ${scope}; retry after ${result.retryAfterSeconds}s`, id);
+      return null;
+    }
+  }
+
+  return { body };
+}
 
-  // Construct self-contained HTML (inline JS and CSS)
-  const html = `
-<div id="${componentName}-root"></div>
-${css ? `<style>${css}</style>` : ""}
-<script type="module">${js}</script>
-  `.trim();
+/**
+ * Sends a JSON response that must not be cached (health checks).
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" }).end(JSON.stringify(body));
+}
+
+/**
+ * Checks whether the server can open sessions: widget assets must load (a missing web/dist would
+ * otherwise only fail inside createServerInstance) and no shutdown may be in progress.
+ */
+function checkReadiness(): { ready: boolean; checks: Record<string, string> } {
+  const checks: Record<string, string> = {};
+
+  try {
+    const widgets = widgetCache.list();
+    checks.widgets = widgets.length > 0
+      ? `ok (${widgets.map((w) => `${w.name} built ${w.builtAt}`).join(", ")})`
+      : "no widgets in the build";
+  } catch (error) {
+    checks.widgets = error instanceof Error ? error.message : String(error);
+  }
+  checks.shutdown = shuttingDown ? "shutting down" : "ok";
+
+  return { ready: Object.values(checks).every((check) => check.startsWith("ok")), checks };
+}
+
+/**
+ * Makes a server's widget resources match the widget cache: registers new widgets and removes
+ * deleted ones. Resource contents are read from the cache on every request, so changed widgets
+ * need no re-registration.
+ *
+ * @throws Error if the widget assets have not been built
+ */
+function syncWidgetResources(server: McpServer) {
+  const registered = widgetResources.get(server) ?? new Map<string, RegisteredResource>();
+  widgetResources.set(server, registered);
+  const widgets = widgetCache.list();
+
+  // Register one resource per widget: ui://widget/<name>.html
+  // Per-widget _meta (description, border, domain, CSP) comes from mcp-app.config.ts and the component's meta.ts
+  for (const widget of widgets) {
+    if (registered.has(widget.name)) continue;
+
+    const resource = server.registerResource(
+      `${widget.name}-widget`,
+      widget.uri,
+      {},
+      traceResource(metrics.wrapResource(async () => {
+        const current = widgetCache.get(widget.name);
+        if (!current) {
+          throw new Error(`Widget "${widget.name}" is no longer available`);
+        }
+        return {
+          contents: [
+            {
+              uri: current.uri,
+              mimeType: "text/html+skybridge",
+              text: current.html,
+              _meta: widgetResourceMeta(current.meta, config.widget, current.assetOrigins),
+            },
+          ],
+        };
+      }))
+    );
+    registered.set(widget.name, resource);
+  }
 
-  return { js, css, html };
+  // Remove widgets that are no longer in the build
+  for (const [name, resource] of registered) {
+    if (!widgets.some((w) => w.name === name)) {
+      resource.remove();
+      registered.delete(name);
+    }
+  }
 }
 
 // ------------------------------------------------------------------------------------------------
@@ -129,249 +409,128 @@ function createServerInstance(): McpServer {
    * an HTML UI template in its descriptor. This HTML template will be rendered in an iframe by ChatGPT.
    */
 
-  // ------------------------------------------------------------------------------------------------
-  // ASSETS
-  // ------------------------------------------------------------------------------------------------
-  // Load widget assets (JS, CSS, HTML)
-  const todoUri = "ui://widget/todo.html";
-  const todoAssets = loadWidgetAssets("todo");
-
   // ------------------------------------------------------------------------------------------------
   // RESOURCES
   // ------------------------------------------------------------------------------------------------
-  // Register resource: widget HTML template
-  server.registerResource(
-    "todo-widget",
-    todoUri,
-    {},
-    async () => ({
-      contents: [
-        {
-          uri: todoUri,
-          mimeType: "text/html+skybridge",
-          text: todoAssets.html,
-          _meta: {
-            "openai/widgetDescription": "A todo list widget",               // Component descriptions will be displayed to the model when a client renders a tool's component. It will help the model understand what is being displayed to help avoid the model from returning redundant content in its response. 
-            "openai/widgetPrefersBorder": true,                             // Renders the widget within a rounded border and shadow. Otherwise, the HTML is rendered full-bleed in the conversation
-            "openai/widgetDomain": 'https://chatgpt.com',                   // Assigns a subdomain for the HTML. When set, the HTML is rendered within `chatgpt-com.web-sandbox.oaiusercontent.com` It's also used to configure the base url for external links.
-            'openai/widgetCSP': {                                           // Required to make external network requests from the HTML code. Also used to validate `openai.openExternal()` requests. 
-              connect_domains: ['https://chatgpt.com'],                     // Maps to `connect-src` rule in the iframe CSP
-              resource_domains: ['https://*.oaistatic.com'],                // Maps to style-src, style-src-elem, img-src, font-src, media-src etc. in the iframe CSP
-            },
-          },
-        },
-      ],
-    })
-  );
+  // Register a resource for every built widget (served from the shared widget cache)
+  syncWidgetResources(server);
 
   // ------------------------------------------------------------------------------------------------
   // TOOLS
   // ------------------------------------------------------------------------------------------------
-  // Register tool: Show Todo List
-  server.registerTool(
-    "show-todo",
-    {
-      title: "Show Todo List",
-      description: "Display a todo list widget",
-      inputSchema: {
-        message: z.string().describe("A message to display with the widget."),
-        userId: z.string().optional().describe("Optional user ID for personalization"),
-      },
-      _meta: {
-        "openai/outputTemplate": todoUri,
-        "openai/toolInvocation/invoking": "Creating a todo list",
-        "openai/toolInvocation/invoked": "Todo list displayed",
-      },
-    },
-    async ({ message, userId }: { message: string; userId?: string }) => {
-      // Sample todo data - in a real app, this would come from a database
-      const sampleTodos = [
-        {
-          id: "1",
-          title: "Learn about ChatGPT Apps SDK",
-          isComplete: false,
-          note: "Study the window.openai API integration",
-          dueDate: "2024-01-15"
-        },
-        {
-          id: "2", 
-          title: "Build an interactive widget",
-          isComplete: true,
-          note: "Implement two-way communication with ChatGPT",
-          dueDate: "2024-01-10"
-        },
-        {
-          id: "3",
-          title: "Deploy to production",
-          isComplete: false,
-          note: "Test with real ChatGPT integration",
-          dueDate: null
-        }
-      ];
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Rendered a todo list! ${message}`,
-          },
-        ],
-        structuredContent: {
-          // This data is injected into your component as window.openai.toolOutput
-          lists: [
-            {
-              id: "main-list",
-              title: "My Tasks",
-              isCurrentlyOpen: true,
-              todos: sampleTodos
-            }
-          ],
-          message,
-          userId: userId || "anonymous"
-        },
-        _meta: {
-          messageLen: message.length,
-          totalTodos: sampleTodos.length,
-          completedTodos: sampleTodos.filter(t => t.isComplete).length
-        },
-      };
-    }
-  );
+  // Register the todo tools; each one a widget's meta.ts lists points at that widget's template
+  registerTodoTools(server, {
+    store: todoStore,
+    requireAuth: AUTH_MODE !== "none",
+    widgetFor: (tool) => widgetCache.forTool(tool),
+    metrics,
+  });
 
-  // NEW: Register tool for refreshing todos from component
-  // This demonstrates how components can call server tools
-  server.registerTool(
-    "refresh-todos",
-    {
-      title: "Refresh Todo List",
-      description: "Refresh the todo list data from the server",
-      inputSchema: {
-        listId: z.string().optional().describe("ID of the list to refresh"),
-        userId: z.string().optional().describe("User ID for personalization"),
-      },
-      _meta: {
-        "openai/toolInvocation/invoking": "Refreshing todo list data",
-        "openai/toolInvocation/invoked": "Todo list refreshed",
-      },
-    },
-    async ({ listId, userId }: { listId?: string; userId?: string }) => {
-      // In a real app, this would fetch fresh data from a database
-      const refreshedTodos = [
-        {
-          id: "1",
-          title: "Learn about ChatGPT Apps SDK",
-          isComplete: false,
-          note: "Study the window.openai API integration",
-          dueDate: "2024-01-15"
-        },
-        {
-          id: "2", 
-          title: "Build an interactive widget",
-          isComplete: true,
-          note: "Implement two-way communication with ChatGPT",
-          dueDate: "2024-01-10"
-        },
-        {
-          id: "3",
-          title: "Deploy to production",
-          isComplete: false,
-          note: "Test with real ChatGPT integration",
-          dueDate: null
-        },
-        {
-          id: "4",
-          title: "Add new feature",
-          isComplete: false,
-          note: "This todo was added during refresh",
-          dueDate: "2024-01-20"
-        }
-      ];
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Refreshed todo list data. Found ${refreshedTodos.length} todos.`,
-          },
-        ],
-        structuredContent: {
-          lists: [
-            {
-              id: listId || "main-list",
-              title: "My Tasks",
-              isCurrentlyOpen: true,
-              todos: refreshedTodos
-            }
-          ],
-          refreshedAt: new Date().toISOString(),
-          userId: userId || "anonymous"
-        },
-        _meta: {
-          totalTodos: refreshedTodos.length,
-          refreshedAt: new Date().toISOString()
-        },
-      };
+  return server;
+}
+
+/**
+ * Handles Streamable HTTP requests (POST/GET/DELETE /mcp).
+ * Sessions are identified by the Mcp-Session-Id header; an initialize request without one starts a new session.
+ * 
+ * Flow:
+ * 1. ChatGPT sends POST /mcp with an initialize request
+ * 2. Server creates MCP server instance and Streamable HTTP transport
+ * 3. Transport assigns a session ID and returns it in the Mcp-Session-Id header
+ * 4. Later POST/GET/DELETE requests carry that header and are routed to the same transport
+ * 5. Reconnecting clients send Last-Event-ID to replay missed messages from the event store
+ */
+async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse, log: Logger, body: unknown) {
+  const sessionIdHeader = req.headers[SESSION_ID_HEADER];
+  const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+  // Existing session: hand the request to its transport
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
     }
-  );
+    if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: Session uses the SSE transport");
+      return;
+    }
+    // A GET opens the server-to-client stream; the session does not expire while it is open
+    if (req.method === "GET") {
+      sessions.trackStream(sessionId, res);
+    }
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
 
-  // NEW: Register tool for saving todo state
-  // This demonstrates how components can persist data back to the server
-  server.registerTool(
-    "save-todo-state",
-    {
-      title: "Save Todo State",
-      description: "Save the current state of the todo list",
-      inputSchema: {
-        todos: z.array(z.object({
-          id: z.string(),
-          title: z.string(),
-          isComplete: z.boolean(),
-          note: z.string().optional(),
-          dueDate: z.string().optional()
-        })).describe("Array of todo items to save"),
-        listId: z.string().optional().describe("ID of the list being saved"),
-        userId: z.string().optional().describe("User ID for personalization"),
-      },
-      _meta: {
-        "openai/toolInvocation/invoking": "Saving todo list state",
-        "openai/toolInvocation/invoked": "Todo list state saved",
-      },
+  // No session yet: only an initialize POST may open one
+  if (req.method !== "POST") {
+    sendJsonRpcError(res, 400, -32000, "Bad Request: Missing Mcp-Session-Id header");
+    return;
+  }
+
+  if (!isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+    return;
+  }
+
+  const refusal = sessionRefusal();
+  if (refusal) {
+    log.warn("Session refused", { transport: "streamable-http", reason: refusal });
+    res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+    sendJsonRpcError(res, 503, -32000, `Service Unavailable: ${refusal}`);
+    return;
+  }
+
+  // Fails when the widget assets are missing; answer this request instead of crashing the process
+  let server: McpServer;
+  try {
+    server = createServerInstance();
+  } catch (error) {
+    log.error("Failed to create MCP server", { transport: "streamable-http", error });
+    res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+    sendJsonRpcError(res, 503, -32000, "Service Unavailable: Server is not ready");
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new InMemoryEventStore(),
+    onsessioninitialized: (newSessionId) => {
+      sessions.add(newSessionId, { server, transport });
+      log.info("Session opened", { sessionId: newSessionId, transport: "streamable-http" });
     },
-    async ({ todos, listId, userId }: { 
-      todos: Array<{id: string; title: string; isComplete: boolean; note?: string; dueDate?: string}>;
-      listId?: string;
-      userId?: string;
-    }) => {
-      // In a real app, this would save to a database
-      console.log(`Saving ${todos.length} todos for user ${userId || 'anonymous'}`);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Saved ${todos.length} todos successfully.`,
-          },
-        ],
-        structuredContent: {
-          success: true,
-          savedTodos: todos.length,
-          listId: listId || "main-list",
-          userId: userId || "anonymous",
-          savedAt: new Date().toISOString()
-        },
-        _meta: {
-          savedTodos: todos.length,
-          savedAt: new Date().toISOString()
-        },
-      };
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+      sessionLimiter?.delete(transport.sessionId);
+      logger.info("Session closed", { sessionId: transport.sessionId, transport: "streamable-http" });
     }
-  );
+  };
 
-  return server;
+  transport.onerror = (error) => {
+    logger.error("Streamable HTTP transport error", { sessionId: transport.sessionId, error });
+  };
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  } catch (error) {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+    log.error("Failed to start Streamable HTTP session", { error });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Failed to establish Streamable HTTP session");
+    }
+  }
 }
 
 /**
  * Handles incoming SSE (Server-Sent Events) connection from ChatGPT.
+ * Legacy transport, kept as a fallback for clients that do not speak Streamable HTTP yet.
  * Creates a new MCP server instance and SSE transport for this session.
  * 
  * Flow:
@@ -380,29 +539,49 @@ function createServerInstance(): McpServer {
  * 3. Server creates SSE transport
  * 4. Connection stays open for bidirectional communication
  */
-async function handleSseRequest(res: ServerResponse) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  const server = createServerInstance();
+async function handleSseRequest(res: ServerResponse, log: Logger) {
+  const refusal = sessionRefusal();
+  if (refusal) {
+    log.warn("Session refused", { transport: "sse", reason: refusal });
+    res.writeHead(503, { "Retry-After": String(RETRY_AFTER_SECONDS) }).end(refusal);
+    return;
+  }
+
+  let server: McpServer;
+  try {
+    server = createServerInstance();
+  } catch (error) {
+    log.error("Failed to create MCP server", { transport: "sse", error });
+    res.writeHead(503, { "Retry-After": String(RETRY_AFTER_SECONDS) }).end("Server is not ready");
+    return;
+  }
+
   const transport = new SSEServerTransport(postPath, res);
   const sessionId = transport.sessionId;
 
-  sessions.set(sessionId, { server, transport });
+  const sessionLog = log.child({ sessionId, transport: "sse" });
+
+  sessions.add(sessionId, { server, transport });
+  sessions.trackStream(sessionId, res, { keepalive: true });
+  sessionLog.info("Session opened");
 
   transport.onclose = async () => {
     sessions.delete(sessionId);
+    sessionLimiter?.delete(sessionId);
+    sessionLog.info("Session closed");
     // Don't call server.close() here - it causes a circular call with transport.close()
     // The SDK handles cleanup internally
   };
 
   transport.onerror = (error) => {
-    console.error("SSE transport error", error);
+    sessionLog.error("SSE transport error", { error });
   };
 
   try {
     await server.connect(transport);
   } catch (error) {
     sessions.delete(sessionId);
-    console.error("Failed to start SSE session", error);
+    sessionLog.error("Failed to start SSE session", { error });
     if (!res.headersSent) {
       res.writeHead(500).end("Failed to establish SSE connection");
     }
@@ -422,10 +601,10 @@ async function handleSseRequest(res: ServerResponse) {
 async function handlePostMessage(
   req: IncomingMessage,
   res: ServerResponse,
-  url: URL
+  url: URL,
+  log: Logger,
+  body: unknown
 ) {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Headers", "content-type");
   const sessionId = url.searchParams.get("sessionId");
 
   if (!sessionId) {
@@ -440,11 +619,16 @@ async function handlePostMessage(
     return;
   }
 
+  if (!(session.transport instanceof SSEServerTransport)) {
+    res.writeHead(400).end("Session uses the Streamable HTTP transport; POST to /mcp instead");
+    return;
+  }
+
   try {
     // Forward the message to the MCP server via SSE transport
-    await session.transport.handlePostMessage(req, res);
+    await session.transport.handlePostMessage(req, res, body);
   } catch (error) {
-    console.error("Failed to process message", error);
+    log.error("Failed to process message", { sessionId, error });
     if (!res.headersSent) {
       res.writeHead(500).end("Failed to process message");
     }
@@ -455,64 +639,208 @@ async function handlePostMessage(
 // MAIN
 // ------------------------------------------------------------------------------------------------
 /**
- * Main HTTP server that routes requests to MCP handlers.
+ * Routes a request of the main HTTP server to the MCP handlers.
  * 
  * Request flow:
- * 1. OPTIONS requests: CORS preflight handling
- * 2. GET /mcp: Open SSE connection (handleSseRequest)
- * 3. POST /mcp/messages: Forward MCP messages (handlePostMessage)
- * 4. Everything else: 404
+ * 1. GET /healthz, /readyz, /metrics (no auth)
+ * 2. OAuth metadata and dev authorization server endpoints
+ * 3. MCP requests from a disallowed Host or Origin: 403
+ * 4. OPTIONS requests: CORS preflight handling (origins.ts)
+ * 5. MCP requests without a valid bearer token (when auth is on): 401
+ * 6. MCP message posts over the size, array length or rate limits: 413, 400 or 429
+ * 7. GET /mcp without Mcp-Session-Id: Open legacy SSE connection (handleSseRequest)
+ * 8. POST/GET/DELETE /mcp: Streamable HTTP (handleStreamableRequest)
+ * 9. POST /mcp/messages: Forward legacy SSE messages (handlePostMessage)
+ * 10. GET/HEAD of a file in web/dist: Static widget assets (no auth)
+ * 11. Everything else: 404
  */
-const httpServer = createServer(
-  async (req: IncomingMessage, res: ServerResponse) => {
-    if (!req.url) {
-      res.writeHead(400).end("Missing URL");
-      return;
-    }
+async function routeRequest(req: IncomingMessage, res: ServerResponse) {
+  // Correlates the log lines of this request; tool handlers read the id from the request headers
+  const requestId = incomingRequestId(req.headers) ?? randomUUID();
+  req.headers[REQUEST_ID_HEADER] = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  const log = logger.child({ requestId });
+
+  if (!req.url) {
+    res.writeHead(400).end("Missing URL");
+    return;
+  }
 
-    const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
-
-    // CORS preflight handling
-    if (
-      req.method === "OPTIONS" &&
-      (url.pathname === ssePath || url.pathname === postPath)
-    ) {
-      res.writeHead(204, {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-        "Access-Control-Allow-Headers": "content-type",
-      });
-      res.end();
-      return;
-    }
+  const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
 
-    // SSE connection endpoint
-    if (req.method === "GET" && url.pathname === ssePath) {
-      await handleSseRequest(res);
-      return;
+  // Health checks and metrics, for load balancers, orchestrators and Prometheus
+  if (req.method === "GET" && url.pathname === healthPath) {
+    sendJson(res, 200, { status: "ok" });
+    return;
+  }
+  if (req.method === "GET" && url.pathname === readyPath) {
+    const { ready, checks } = checkReadiness();
+    sendJson(res, ready ? 200 : 503, { status: ready ? "ok" : "unavailable", checks });
+    return;
+  }
+  if (req.method === "GET" && url.pathname === metricsPath) {
+    metrics.handleRequest(res, { activeSessions: sessions.size });
+    return;
+  }
+
+  // OAuth protected resource metadata, also under the MCP path (RFC 9728 path-suffixed form)
+  if (
+    resourceServer &&
+    req.method === "GET" &&
+    (url.pathname === PROTECTED_RESOURCE_METADATA_PATH ||
+      url.pathname === `${PROTECTED_RESOURCE_METADATA_PATH}${mcpPath}`)
+  ) {
+    resourceServer.handleMetadataRequest(res);
+    return;
+  }
+
+  // Bundled dev authorization server
+  if (devAuthServer && (await devAuthServer.handleRequest(req, res, url))) {
+    return;
+  }
+
+  const isMcpEndpoint = url.pathname === mcpPath || url.pathname === postPath;
+
+  // Reject other sites' pages and DNS-rebound hosts before anything else, preflights included;
+  // allowed requests get CORS headers for their origin, and allowed preflights are answered
+  if (isMcpEndpoint) {
+    const { check, handled } = originPolicy.handleRequest(req, res);
+    if (!check.allowed) {
+      log.warn("Request rejected", { reason: check.reason, path: url.pathname });
     }
+    if (handled) return;
+  }
 
-    // MCP message handling endpoint
-    if (req.method === "POST" && url.pathname === postPath) {
-      await handlePostMessage(req, res, url);
+  // Every MCP request needs a valid bearer token when auth is on; the transports hand the
+  // token's AuthInfo to tool handlers as extra.authInfo
+  if (resourceServer && isMcpEndpoint) {
+    if (!(await resourceServer.authenticate(req as AuthenticatedRequest, res))) {
       return;
     }
+  }
+
+  // Message posts are read here so the request limits apply before a transport sees them
+  let body: unknown;
+  if (req.method === "POST" && isMcpEndpoint) {
+    const sessionIdHeader = req.headers[SESSION_ID_HEADER];
+    const sessionId = url.pathname === postPath
+      ? url.searchParams.get("sessionId")
+      : (Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader) ?? null;
+    const received = await receiveMessages(req as AuthenticatedRequest, res, sessionId, log);
+    if (!received) return;
+    body = received.body;
+  }
+
+  // Legacy SSE connection endpoint: a GET without a Streamable HTTP session
+  if (req.method === "GET" && url.pathname === mcpPath && !req.headers[SESSION_ID_HEADER]) {
+    await handleSseRequest(res, log);
+    return;
+  }
+
+  // Streamable HTTP endpoint
+  if (
+    (req.method === "POST" || req.method === "GET" || req.method === "DELETE") &&
+    url.pathname === mcpPath
+  ) {
+    await handleStreamableRequest(req, res, log, body);
+    return;
+  }
+
+  // Legacy SSE message handling endpoint
+  if (req.method === "POST" && url.pathname === postPath) {
+    await handlePostMessage(req, res, url, log, body);
+    return;
+  }
 
-    res.writeHead(404).end("Not Found");
+  // Built widget assets; the files the widget HTML references from BASE_URL
+  if (!isMcpEndpoint && (await staticAssets.handleRequest(req, res, url))) {
+    return;
   }
-);
+
+  res.writeHead(404).end("Not Found");
+}
+
+/**
+ * Main HTTP server. Errors no handler answered are logged and answered with 500, instead of
+ * leaving the request hanging and the process with an unhandled rejection.
+ */
+const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+  routeRequest(req, res).catch((error) => {
+    logger.error("Unhandled request error", { requestId: req.headers[REQUEST_ID_HEADER], error });
+    if (!res.headersSent) {
+      res.writeHead(500).end("Internal Server Error");
+    } else {
+      res.end();
+    }
+  });
+});
 
 // Error handling for malformed HTTP requests
 httpServer.on("clientError", (err: Error, socket) => {
-  console.error("HTTP client error", err);
+  logger.warn("HTTP client error", { error: err });
   socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
 });
 
+// Reload widgets after a rebuild and tell connected sessions their resources changed
+const stopWatchingWidgets = widgetCache.watch((widgets) => {
+  staticAssets.clear();
+  logger.info("Widget assets changed", {
+    widgets: widgets.map((w) => `${w.name}@${w.hash}`),
+    sessions: sessions.size,
+  });
+  for (const { server } of sessions.values()) {
+    try {
+      syncWidgetResources(server);
+      server.sendResourceListChanged();
+    } catch (error) {
+      logger.error("Failed to update widget resources for session", { error });
+    }
+  }
+});
+
+/**
+ * Graceful shutdown: stops accepting connections, closes every session (which ends open SSE
+ * streams), then exits once in-flight requests are done. Exits anyway after SHUTDOWN_TIMEOUT_SECONDS.
+ */
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info("Shutting down", { signal, sessions: sessions.size });
+
+  const forceExit = setTimeout(() => {
+    logger.error("Shutdown timed out, exiting", { timeoutSeconds: SHUTDOWN_TIMEOUT_SECONDS });
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_SECONDS * 1000).unref();
+
+  stopWatchingWidgets();
+  httpServer.close(async () => {
+    await stopTracing?.();  // Flush buffered spans
+    clearTimeout(forceExit);
+    logger.info("MCP App server stopped");
+    process.exit(0);
+  });
+  await sessions.closeAll();
+  // Keep-alive connections without a request in flight would hold close() open
+  httpServer.closeIdleConnections();
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
+
 // Start the HTTP server
 httpServer.listen(port, () => {
-  console.log(`MCP App server listening on http://localhost:${port}`);
-  console.log(`  SSE stream: GET http://localhost:${port}${ssePath}`);
-  console.log(
-    `  Message post endpoint: POST http://localhost:${port}${postPath}?sessionId=...`
-  );
+  logger.info("MCP App server listening", {
+    url: `http://localhost:${port}`,
+    streamableHttp: `POST/GET/DELETE ${mcpPath}`,
+    legacySseStream: `GET ${mcpPath}`,
+    legacySseMessages: `POST ${postPath}?sessionId=...`,
+    health: [healthPath, readyPath],
+    metrics: metricsPath,
+    widgetAssets: config.widget.assets,
+    config: config.configFile ?? "defaults and environment",
+    storage: config.storage.backend,
+    auth: AUTH_MODE,
+    ...(resourceServer && { protectedResourceMetadata: resourceServer.metadataUrl }),
+    ...(devAuthServer && { devAuthorizationServer: `${BASE_URL} (do not expose in production)` }),
+  });
 });
@@ -0,0 +1,165 @@
+// SESSIONS.TS
+/**
+ * Session registry for the MCP server.
+ *
+ * Each ChatGPT connection gets its own MCP server instance and transport, kept here by session ID.
+ * The registry also owns the session lifecycle:
+ * - Idle expiry: sessions without an open stream and without any request for `idleTtlMs` are
+ *   closed (e.g. Streamable HTTP clients that went away without a DELETE)
+ * - Capacity: `isFull()` tells the HTTP layer to refuse new sessions (503) past `maxSessions`
+ * - Keepalive: open legacy SSE streams get a comment line every `keepaliveMs`, so proxies and load
+ *   balancers do not drop connections that are quiet but alive. Streamable HTTP streams belong to
+ *   the SDK transport, which writes them itself; they are tracked only to hold off idle expiry
+ * - Shutdown: `closeAll()` closes every transport, which ends their open streams
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { ServerResponse } from "node:http";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+import { logger } from "./logger.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/**
+ * A session is served by either the Streamable HTTP transport or the legacy SSE transport.
+ */
+export type SessionRecord = {
+  server: McpServer;           // Isolated MCP server for this session
+  transport: StreamableHTTPServerTransport | SSEServerTransport;  // Connection for this session
+};
+
+type SessionEntry = SessionRecord & {
+  lastActivity: number;              // Epoch milliseconds of the last request
+  streams: Set<ServerResponse>;      // Open SSE responses; the client is still there
+  keepalive: Set<ServerResponse>;    // Those of them that receive keepalives
+};
+
+export type SessionManagerOptions = {
+  idleTtlMs: number;       // Close sessions idle for longer than this (0 disables expiry)
+  maxSessions: number;     // Refuse new sessions past this many (0 means no limit)
+  keepaliveMs: number;     // Interval of legacy SSE keepalive comments (0 disables them)
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// How often idle sessions are looked for, at most
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+// SSE comment line; clients ignore it
+const KEEPALIVE_COMMENT = ": keepalive\n\n";
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Active sessions by session ID, with idle expiry, a size limit and legacy SSE keepalives.
+ */
+export class SessionManager {
+  private readonly sessions = new Map<string, SessionEntry>();
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  constructor(private readonly options: SessionManagerOptions) {
+    const { idleTtlMs, keepaliveMs } = options;
+
+    if (idleTtlMs > 0) {
+      const sweepInterval = Math.min(Math.max(idleTtlMs / 4, 1000), MAX_SWEEP_INTERVAL_MS);
+      this.timers.push(setInterval(() => this.closeIdle(), sweepInterval).unref());
+    }
+    if (keepaliveMs > 0) {
+      this.timers.push(setInterval(() => this.sendKeepalives(), keepaliveMs).unref());
+    }
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * True when no more sessions may be opened.
+   */
+  isFull(): boolean {
+    return this.options.maxSessions > 0 && this.sessions.size >= this.options.maxSessions;
+  }
+
+  add(sessionId: string, record: SessionRecord) {
+    this.sessions.set(sessionId, { ...record, lastActivity: Date.now(), streams: new Set(), keepalive: new Set() });
+  }
+
+  /**
+   * Looks up a session and records activity on it.
+   */
+  get(sessionId: string): SessionRecord | undefined {
+    const entry = this.sessions.get(sessionId);
+    if (entry) entry.lastActivity = Date.now();
+    return entry;
+  }
+
+  delete(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  values(): SessionRecord[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Registers an open SSE response of a session, which keeps the session from expiring. With
+   * `keepalive`, it also gets keepalive comments once its headers are sent; only pass it for
+   * streams this server writes (legacy SSE). It is dropped when it closes.
+   */
+  trackStream(sessionId: string, res: ServerResponse, { keepalive = false } = {}) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+    entry.streams.add(res);
+    if (keepalive) entry.keepalive.add(res);
+    res.on("close", () => {
+      entry.streams.delete(res);
+      entry.keepalive.delete(res);
+    });
+  }
+
+  /**
+   * Closes every session and stops the timers. Used on shutdown.
+   */
+  async closeAll() {
+    for (const timer of this.timers) clearInterval(timer);
+    const entries = [...this.sessions.entries()];
+    this.sessions.clear();
+    await Promise.allSettled(entries.map(([sessionId, entry]) => this.closeEntry(sessionId, entry)));
+  }
+
+  private async closeEntry(sessionId: string, entry: SessionEntry) {
+    try {
+      await entry.transport.close();
+    } catch (error) {
+      logger.error("Failed to close session", { sessionId, error });
+    }
+  }
+
+  private closeIdle() {
+    const cutoff = Date.now() - this.options.idleTtlMs;
+    for (const [sessionId, entry] of this.sessions) {
+      // An open stream means the client is still there; dead connections close on a failed keepalive
+      if (entry.streams.size > 0 || entry.lastActivity >= cutoff) continue;
+      logger.info("Closing idle session", { sessionId, idleTtlSeconds: Math.round(this.options.idleTtlMs / 1000) });
+      this.sessions.delete(sessionId);
+      void this.closeEntry(sessionId, entry);
+    }
+  }
+
+  private sendKeepalives() {
+    for (const entry of this.sessions.values()) {
+      for (const res of entry.keepalive) {
+        if (res.headersSent && !res.writableEnded) res.write(KEEPALIVE_COMMENT);
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// STORAGE.TEST.TS
+/**
+ * Tests for the todo store and the reorder-todos input schema.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MAX_TODOS_PER_LIST, toolSchemas } from "mcp-app-shared";
+
+import { DEFAULT_LIST_ID, FileTodoStore, ListFullError } from "./storage.js";
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+const USER_ID = "test-user";
+
+const NEW_TODO = { title: "New todo", isComplete: false, note: "", dueDate: null };
+
+// ------------------------------------------------------------------------------------------------
+// TESTS
+// ------------------------------------------------------------------------------------------------
+describe("reorder-todos", () => {
+  it("rejects repeated todo IDs in its input", () => {
+    const result = toolSchemas["reorder-todos"].input.todoIds.safeParse(["1", "1", "1"]);
+    assert.equal(result.success, false);
+    assert.match(result.error!.issues[0].message, /unique/);
+  });
+
+  it("keeps one copy of a todo whose ID is repeated", async () => {
+    const store = new FileTodoStore(null);
+    const list = await store.reorderTodos(USER_ID, DEFAULT_LIST_ID, ["3", "3", "1", "3"]);
+    assert.deepEqual(list.todos.map((t) => t.id), ["3", "1", "2"]);
+  });
+});
+
+describe("addTodo", () => {
+  it("refuses to grow a list past MAX_TODOS_PER_LIST, even for concurrent adds", async () => {
+    const store = new FileTodoStore(null);
+    const todos = (await store.getList(USER_ID, DEFAULT_LIST_ID))!.todos;
+    const free = MAX_TODOS_PER_LIST - todos.length;
+
+    const results = await Promise.allSettled(
+      Array.from({ length: free + 5 }, () => store.addTodo(USER_ID, DEFAULT_LIST_ID, NEW_TODO))
+    );
+    const rejected = results.filter((r) => r.status === "rejected");
+    assert.equal(rejected.length, 5);
+    assert.ok(rejected.every((r) => r.reason instanceof ListFullError));
+    assert.equal((await store.getList(USER_ID, DEFAULT_LIST_ID))!.todos.length, MAX_TODOS_PER_LIST);
+  });
+});
@@ -0,0 +1,457 @@
+// STORAGE.TS
+/**
+ * Todo persistence layer for the MCP server.
+ *
+ * Tools never touch the filesystem directly: they go through a `TodoStore`,
+ * so forks can swap the default JSON file for a database without changing
+ * any tool handler. `createTodoStore()` picks the backend named by the `storage`
+ * setting: `file` (default) or `memory`.
+ *
+ * Data is keyed by `userId` and then by `listId`:
+ * - show-todo     -> getLists(userId)
+ * - refresh-todos -> getList(userId, listId)
+ * - save-todo-state -> saveTodos(userId, listId, todos)
+ * - add-todo, update-todo, complete-todo, delete-todo, reorder-todos -> per-todo methods
+ * - create-list, rename-list, delete-list -> per-list methods
+ *
+ * Methods that target a list or todo that does not exist throw a `NotFoundError`. Adding a todo to
+ * a list that already holds MAX_TODOS_PER_LIST throws a `ListFullError`, so the widget can still
+ * save every list it receives.
+ *
+ * Every list carries a `version` that increases on each change, plus an `updatedAt` timestamp.
+ * Writers that pass a `baseVersion` get a `ConflictError` instead of overwriting a list that
+ * changed since they last read it; the todo widget uses this to merge its edits with the model's.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { MAX_TODOS_PER_LIST, type Todo, type TodoList } from "mcp-app-shared";
+import type { StorageConfig } from "mcp-app-shared/config";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/**
+ * Todos and lists, in the shape the todo widget consumes. Defined by the shared schemas in
+ * mcp-app-shared; `isCurrentlyOpen` tells the widget which list to open on render.
+ */
+export type { Todo, TodoList } from "mcp-app-shared";
+
+/**
+ * Options for writes that replace a whole list.
+ */
+export type ListWriteOptions = {
+  title?: string;        // New title; left unchanged when omitted
+  baseVersion?: number;  // Version the writer last saw; a mismatch throws a ConflictError
+};
+
+/**
+ * Fields of a todo that can be set on creation or changed later.
+ */
+export type TodoFields = Omit<Todo, "id">;
+
+/**
+ * Pluggable storage backend. Implementations must be safe to share across sessions.
+ */
+export interface TodoStore {
+  /** Returns every list for the user, seeding defaults for first-time users. */
+  getLists(userId: string): Promise<TodoList[]>;
+  /** Returns a single list, or null if the user has no list with that ID. */
+  getList(userId: string, listId: string): Promise<TodoList | null>;
+  /** Replaces the todos (and optionally the title) of a list, creating the list if it does not exist yet. */
+  saveTodos(userId: string, listId: string, todos: Todo[], options?: ListWriteOptions): Promise<TodoList>;
+
+  /** Adds a todo at the top of a list and returns it with its generated ID. Throws a ListFullError if the list is full. */
+  addTodo(userId: string, listId: string, fields: TodoFields): Promise<Todo>;
+  /** Applies a partial update to a todo and returns the updated todo. */
+  updateTodo(userId: string, listId: string, todoId: string, changes: Partial<TodoFields>): Promise<Todo>;
+  /** Removes a todo from a list. */
+  deleteTodo(userId: string, listId: string, todoId: string): Promise<void>;
+  /** Reorders a list's todos. IDs left out keep their relative order after the given ones; repeated IDs count once. */
+  reorderTodos(userId: string, listId: string, todoIds: string[]): Promise<TodoList>;
+
+  /** Creates an empty list at the top and returns it with its generated ID. */
+  createList(userId: string, title: string): Promise<TodoList>;
+  /** Changes a list's title and returns the updated list. */
+  renameList(userId: string, listId: string, title: string): Promise<TodoList>;
+  /** Removes a list and all its todos. */
+  deleteList(userId: string, listId: string, options?: Pick<ListWriteOptions, "baseVersion">): Promise<void>;
+}
+
+/**
+ * On-disk layout of the JSON file store. In memory, `users` has no prototype, so any string
+ * (including "__proto__") is a plain key.
+ */
+type StoreFile = {
+  users: Record<string, { lists: TodoList[] }>;
+};
+
+// ------------------------------------------------------------------------------------------------
+// ERRORS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Thrown when a list or todo ID does not exist for the user.
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Thrown when a write carries a `baseVersion` that no longer matches the stored list.
+ * `current` is the list as stored now, or null if it was deleted.
+ */
+export class ConflictError extends Error {
+  constructor(
+    readonly listId: string,
+    readonly current: TodoList | null
+  ) {
+    super(`List "${listId}" was changed by someone else`);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Thrown when a todo is added to a list that already holds MAX_TODOS_PER_LIST todos.
+ */
+export class ListFullError extends Error {
+  constructor(list: TodoList) {
+    super(`List "${list.title}" already has ${MAX_TODOS_PER_LIST} todos`);
+    this.name = "ListFullError";
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+export const DEFAULT_USER_ID = "anonymous";
+export const DEFAULT_LIST_ID = "main-list";
+
+/**
+ * Lists every new user starts with, so the widget has something to render on first use.
+ */
+const DEFAULT_LISTS: TodoList[] = [
+  {
+    id: DEFAULT_LIST_ID,
+    title: "My Tasks",
+    isCurrentlyOpen: true,
+    version: 1,
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    todos: [
+      {
+        id: "1",
+        title: "Learn about ChatGPT Apps SDK",
+        isComplete: false,
+        note: "Study the window.openai API integration",
+        dueDate: "2024-01-15"
+      },
+      {
+        id: "2",
+        title: "Build an interactive widget",
+        isComplete: true,
+        note: "Implement two-way communication with ChatGPT",
+        dueDate: "2024-01-10"
+      },
+      {
+        id: "3",
+        title: "Deploy to production",
+        isComplete: false,
+        note: "Test with real ChatGPT integration",
+        dueDate: null
+      }
+    ],
+  },
+];
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Deep copies lists so callers can never mutate the store's internal state.
+ */
+function cloneLists(lists: TodoList[]): TodoList[] {
+  return structuredClone(lists);
+}
+
+/**
+ * Throws a ConflictError if the writer's base version does not match the stored list.
+ * Writes without a base version always go through.
+ */
+function checkVersion(lists: TodoList[], listId: string, baseVersion: number | undefined) {
+  if (baseVersion === undefined) return;
+  const current = lists.find((l) => l.id === listId) ?? null;
+  if (current?.version !== baseVersion) {
+    throw new ConflictError(listId, current ? structuredClone(current) : null);
+  }
+}
+
+/**
+ * The part of a list whose changes bump its version.
+ */
+function listContent(list: TodoList): string {
+  return JSON.stringify({ title: list.title, todos: list.todos });
+}
+
+/**
+ * Creates an empty list. Its version becomes 1 when the surrounding mutation saves it.
+ */
+function newList(id: string, title: string): TodoList {
+  return { id, title, isCurrentlyOpen: false, todos: [], version: 0, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Finds a list by ID or throws a NotFoundError.
+ */
+function requireList(lists: TodoList[], listId: string): TodoList {
+  const list = lists.find((l) => l.id === listId);
+  if (!list) {
+    throw new NotFoundError(`List "${listId}" not found`);
+  }
+  return list;
+}
+
+/**
+ * Finds a todo by ID within a list or throws a NotFoundError.
+ */
+function requireTodo(list: TodoList, todoId: string): Todo {
+  const todo = list.todos.find((t) => t.id === todoId);
+  if (!todo) {
+    throw new NotFoundError(`Todo "${todoId}" not found in list "${list.id}"`);
+  }
+  return todo;
+}
+
+// ------------------------------------------------------------------------------------------------
+// FILE STORE
+// ------------------------------------------------------------------------------------------------
+/**
+ * Default backend: keeps everything in a single JSON file.
+ *
+ * The file is read once and cached in memory. Writes are serialized through a promise chain
+ * and written to a temp file first, then renamed, so a crash never leaves a half-written file.
+ * Without a file path nothing is read or written: data lives in memory until the process exits.
+ */
+export class FileTodoStore implements TodoStore {
+  private data: StoreFile | null = null;
+  private loading: Promise<StoreFile> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string | null) {}
+
+  async getLists(userId: string): Promise<TodoList[]> {
+    const user = await this.getUser(userId);
+    return cloneLists(user.lists);
+  }
+
+  async getList(userId: string, listId: string): Promise<TodoList | null> {
+    const user = await this.getUser(userId);
+    const list = user.lists.find((l) => l.id === listId);
+    return list ? structuredClone(list) : null;
+  }
+
+  async saveTodos(
+    userId: string,
+    listId: string,
+    todos: Todo[],
+    { title, baseVersion }: ListWriteOptions = {}
+  ): Promise<TodoList> {
+    return this.mutate(userId, (lists) => {
+      checkVersion(lists, listId, baseVersion);
+      let list = lists.find((l) => l.id === listId);
+
+      if (!list) {
+        list = newList(listId, "Untitled List");
+        lists.unshift(list);
+      }
+      if (title !== undefined) list.title = title;
+      list.todos = structuredClone(todos);
+      return list;
+    });
+  }
+
+  async addTodo(userId: string, listId: string, fields: TodoFields): Promise<Todo> {
+    return this.mutate(userId, (lists) => {
+      // Checked inside the mutation, so concurrent adds cannot both pass it
+      const list = requireList(lists, listId);
+      if (list.todos.length >= MAX_TODOS_PER_LIST) {
+        throw new ListFullError(list);
+      }
+      const todo: Todo = { id: randomUUID(), ...fields };
+      list.todos.unshift(todo);
+      return todo;
+    });
+  }
+
+  async updateTodo(
+    userId: string,
+    listId: string,
+    todoId: string,
+    changes: Partial<TodoFields>
+  ): Promise<Todo> {
+    return this.mutate(userId, (lists) => {
+      const todo = requireTodo(requireList(lists, listId), todoId);
+      Object.assign(todo, changes);
+      return todo;
+    });
+  }
+
+  async deleteTodo(userId: string, listId: string, todoId: string): Promise<void> {
+    await this.mutate(userId, (lists) => {
+      const list = requireList(lists, listId);
+      requireTodo(list, todoId);
+      list.todos = list.todos.filter((t) => t.id !== todoId);
+    });
+  }
+
+  async reorderTodos(userId: string, listId: string, todoIds: string[]): Promise<TodoList> {
+    return this.mutate(userId, (lists) => {
+      const list = requireList(lists, listId);
+      const ids = new Set(todoIds);
+      const ordered = [...ids].map((id) => requireTodo(list, id));
+      const rest = list.todos.filter((t) => !ids.has(t.id));
+      list.todos = [...ordered, ...rest];
+      return list;
+    });
+  }
+
+  async createList(userId: string, title: string): Promise<TodoList> {
+    return this.mutate(userId, (lists) => {
+      const list = newList(randomUUID(), title);
+      lists.unshift(list);
+      return list;
+    });
+  }
+
+  async renameList(userId: string, listId: string, title: string): Promise<TodoList> {
+    return this.mutate(userId, (lists) => {
+      const list = requireList(lists, listId);
+      list.title = title;
+      return list;
+    });
+  }
+
+  async deleteList(
+    userId: string,
+    listId: string,
+    { baseVersion }: Pick<ListWriteOptions, "baseVersion"> = {}
+  ): Promise<void> {
+    await this.mutate(userId, (lists) => {
+      checkVersion(lists, listId, baseVersion);
+      const index = lists.indexOf(requireList(lists, listId));
+      lists.splice(index, 1);
+    });
+  }
+
+  /**
+   * Applies a change to a user's lists, bumps the version of every list whose content changed,
+   * persists it, and returns a copy of the result. If `apply` throws, nothing is written.
+   */
+  private async mutate<T>(userId: string, apply: (lists: TodoList[]) => T): Promise<T> {
+    const user = await this.getUser(userId);
+    const before = new Map(user.lists.map((l) => [l.id, listContent(l)]));
+    const draft = cloneLists(user.lists);
+    const result = apply(draft);
+
+    const now = new Date().toISOString();
+    for (const list of draft) {
+      if (before.get(list.id) !== listContent(list)) {
+        list.version = list.version + 1;
+        list.updatedAt = now;
+      }
+    }
+
+    user.lists = draft;
+    await this.persist();
+    return structuredClone(result);
+  }
+
+  /**
+   * Returns the mutable record for a user, seeding default lists on first access.
+   */
+  private async getUser(userId: string): Promise<{ lists: TodoList[] }> {
+    const data = await this.load();
+    if (!data.users[userId]) {
+      data.users[userId] = { lists: cloneLists(DEFAULT_LISTS) };
+    }
+
+    // Lists saved before versioning existed start at version 1
+    for (const list of data.users[userId].lists) {
+      list.version ??= 1;
+      list.updatedAt ??= new Date(0).toISOString();
+    }
+    return data.users[userId];
+  }
+
+  /**
+   * Reads the store file on first use. Concurrent first calls share one read, so no caller
+   * replaces data another one already changed. A failed read is retried by the next call.
+   */
+  private load(): Promise<StoreFile> {
+    this.loading ??= this.read().then(
+      (data) => (this.data = data),
+      (error) => {
+        this.loading = null;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  /**
+   * Reads and parses the store file. A missing file starts an empty store.
+   */
+  private async read(): Promise<StoreFile> {
+    if (!this.filePath) return { users: Object.create(null) };
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<StoreFile>;
+      return { users: Object.assign(Object.create(null), parsed.users) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new Error(`Failed to read todo store at ${this.filePath}: ${(error as Error).message}`);
+      }
+      return { users: Object.create(null) };
+    }
+  }
+
+  /**
+   * Queues a write of the current in-memory snapshot.
+   */
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const snapshot = JSON.stringify(this.data, null, 2);
+    const write = async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, snapshot, "utf8");
+      await fs.promises.rename(tmpPath, filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// FACTORY
+// ------------------------------------------------------------------------------------------------
+/**
+ * Creates the store selected by the `storage` setting. Add a case here for new backends.
+ */
+export function createTodoStore(storage: StorageConfig): TodoStore {
+  switch (storage.backend) {
+    case "file":
+      return new FileTodoStore(storage.path);
+    case "memory":
+      return new FileTodoStore(null);
+  }
+}
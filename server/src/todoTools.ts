@@ -0,0 +1,479 @@
+// TODOTOOLS.TS
+/**
+ * Todo tools exposed to ChatGPT and to the todo widget.
+ *
+ * - show-todo, refresh-todos, save-todo-state: render, reload and bulk-save the widget's data
+ * - add-todo, update-todo, complete-todo, delete-todo, reorder-todos: edit single todos
+ * - create-list, rename-list, delete-list: manage lists
+ *
+ * Every tool that changes data returns the user's lists in `structuredContent`, in the same
+ * `lists` shape the todo widget consumes, with the affected list marked as open. Tools listed in a
+ * widget's meta.ts (`tools`) reference that widget's template, so it re-renders after the model
+ * calls them.
+ *
+ * Lists carry a `version`. save-todo-state and delete-list accept the `baseVersion` the caller
+ * last saw and answer with `conflict: true` and the stored list when it has changed since.
+ *
+ * Input and output schemas come from the shared package (mcp-app-shared), which the widgets
+ * use too; the SDK validates arguments and structuredContent against them.
+ *
+ * Tools act for the user of the request's access token (`extra.authInfo`), never for a user ID
+ * passed in their arguments, so one user cannot read or change another user's todos.
+ *
+ * Every call is recorded for /metrics (metrics.ts), and logged and traced (tracing.ts); handlers
+ * log what else is worth knowing through `requestLogger(extra)`, which carries the request's
+ * correlation ids.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { toolSchemas, type ToolArgs, type ToolName, type ToolOutput } from "mcp-app-shared";
+
+import { TODO_SCOPE, userIdFromAuth } from "./auth.js";
+import { requestLogger, type RequestExtra } from "./logger.js";
+import type { ServerMetrics, ToolHandler } from "./metrics.js";
+import {
+  ConflictError,
+  DEFAULT_LIST_ID,
+  type TodoList,
+  type TodoStore,
+} from "./storage.js";
+import { traceTool } from "./tracing.js";
+import type { Widget } from "./widgets.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/**
+ * The widget that renders a tool's results: its resource URI and the metadata from its meta.ts.
+ */
+type ToolWidget = Pick<Widget, "uri" | "meta">;
+
+type TodoToolsOptions = {
+  store: TodoStore;         // Where todos are read from and written to
+  requireAuth: boolean;     // Whether callers must sign in (OAuth) before using the tools
+  widgetFor: (tool: ToolName) => ToolWidget | undefined;  // From the widgets' meta.ts `tools`
+  metrics: ServerMetrics;   // Records every call for /metrics
+};
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Builds a tool result carrying the user's lists, with `openListId` marked as the open list
+ * so the widget shows the list that was just changed.
+ */
+async function listsResult(
+  store: TodoStore,
+  userId: string,
+  text: string,
+  openListId: string | null,
+  extra: Record<string, unknown> = {}
+) {
+  const lists = (await store.getLists(userId)).map((l) => ({
+    ...l,
+    isCurrentlyOpen: l.id === openListId,
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    structuredContent: {
+      // This data is injected into your component as window.openai.toolOutput
+      lists,
+      userId,
+      ...extra,
+    },
+    _meta: {
+      totalTodos: lists.reduce((sum, l) => sum + l.todos.length, 0),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Builds the result of a write rejected because the list changed since the caller read it.
+ * Not an error: the widget merges `list` (the stored list, or null if deleted) with its edits.
+ */
+function conflictResult(error: ConflictError, userId: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${error.message}. Reload the list and try again.`,
+      },
+    ],
+    structuredContent: {
+      success: false,
+      conflict: true,
+      listId: error.listId,
+      list: error.current,
+      userId,
+    } satisfies ToolOutput<"save-todo-state">,
+  };
+}
+
+/**
+ * Widget `_meta` for a tool whose result a widget renders. Without a widget in the build, the
+ * tool still answers, with text and structuredContent only.
+ */
+function widgetToolMeta(widget: ToolWidget | undefined, invoking: string, invoked: string) {
+  return {
+    ...(widget && { "openai/outputTemplate": widget.uri }),
+    "openai/toolInvocation/invoking": invoking,
+    "openai/toolInvocation/invoked": invoked,
+  };
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Registers every todo tool on a session's MCP server.
+ */
+export function registerTodoTools(
+  server: McpServer,
+  { store, requireAuth, widgetFor, metrics }: TodoToolsOptions
+) {
+  // Tells ChatGPT whether to run the OAuth flow before calling a tool
+  const security = {
+    securitySchemes: requireAuth ? [{ type: "oauth2", scopes: [TODO_SCOPE] }] : [{ type: "noauth" }],
+  };
+
+  // Records every call for /metrics, and logs and traces it
+  const instrument = <Args extends [...unknown[], RequestExtra]>(tool: ToolName, handler: ToolHandler<Args>) =>
+    traceTool(tool, metrics.wrapTool(tool, handler));
+
+  // ------------------------------------------------------------------------------------------------
+  // WIDGET TOOLS
+  // ------------------------------------------------------------------------------------------------
+  // Register tool: Show Todo List
+  const showTodoWidget = widgetFor("show-todo");
+  server.registerTool(
+    "show-todo",
+    {
+      title: "Show Todo List",
+      description: "Display a todo list widget",
+      inputSchema: toolSchemas["show-todo"].input,
+      outputSchema: toolSchemas["show-todo"].output,
+      _meta: {
+        ...security,
+        ...widgetToolMeta(
+          showTodoWidget,
+          showTodoWidget?.meta?.invoking ?? "Creating a todo list",
+          showTodoWidget?.meta?.invoked ?? "Todo list displayed"
+        ),
+      },
+    },
+    instrument("show-todo", async ({ message }: ToolArgs<"show-todo">, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const lists = await store.getLists(resolvedUserId);
+      const allTodos = lists.flatMap((l) => l.todos);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Rendered a todo list! ${message}`,
+          },
+        ],
+        structuredContent: {
+          // This data is injected into your component as window.openai.toolOutput
+          lists,
+          message,
+          userId: resolvedUserId
+        } satisfies ToolOutput<"show-todo">,
+        _meta: {
+          messageLen: message.length,
+          totalTodos: allTodos.length,
+          completedTodos: allTodos.filter(t => t.isComplete).length
+        },
+      };
+    })
+  );
+
+  // NEW: Register tool for refreshing todos from component
+  // This demonstrates how components can call server tools
+  server.registerTool(
+    "refresh-todos",
+    {
+      title: "Refresh Todo List",
+      description: "Refresh the todo list data from the server",
+      inputSchema: toolSchemas["refresh-todos"].input,
+      outputSchema: toolSchemas["refresh-todos"].output,
+      _meta: {
+        ...security,
+        "openai/widgetAccessible": true,  // The todo widget calls this from its refresh button
+        "openai/toolInvocation/invoking": "Refreshing todo list data",
+        "openai/toolInvocation/invoked": "Todo list refreshed",
+      },
+    },
+    instrument("refresh-todos", async ({ listId }: ToolArgs<"refresh-todos">, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+
+      // Refresh a single list when asked for one, otherwise everything the user has
+      const lists = listId
+        ? [await store.getList(resolvedUserId, listId)].filter((l): l is TodoList => l !== null)
+        : await store.getLists(resolvedUserId);
+      const totalTodos = lists.reduce((sum, l) => sum + l.todos.length, 0);
+      const refreshedAt = new Date().toISOString();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Refreshed todo list data. Found ${totalTodos} todos.`,
+          },
+        ],
+        structuredContent: {
+          lists,
+          // A single refreshed list does not say anything about the user's other lists
+          ...(listId && { partial: true }),
+          refreshedAt,
+          userId: resolvedUserId
+        } satisfies ToolOutput<"refresh-todos">,
+        _meta: {
+          totalTodos,
+          refreshedAt
+        },
+      };
+    })
+  );
+
+  // NEW: Register tool for saving todo state
+  // This demonstrates how components can persist data back to the server
+  server.registerTool(
+    "save-todo-state",
+    {
+      title: "Save Todo State",
+      description: "Save the current state of the todo list",
+      inputSchema: toolSchemas["save-todo-state"].input,
+      outputSchema: toolSchemas["save-todo-state"].output,
+      _meta: {
+        ...security,
+        "openai/widgetAccessible": true,  // The todo widget autosaves through this tool
+        "openai/toolInvocation/invoking": "Saving todo list state",
+        "openai/toolInvocation/invoked": "Todo list state saved",
+      },
+    },
+    instrument("save-todo-state", async ({ todos, listId, title, baseVersion }: ToolArgs<"save-todo-state">, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const resolvedListId = listId || DEFAULT_LIST_ID;
+      const log = requestLogger(extra).child({ userId: resolvedUserId, listId: resolvedListId });
+      log.debug("Saving todos", { count: todos.length, baseVersion });
+
+      let list: TodoList;
+      try {
+        list = await store.saveTodos(resolvedUserId, resolvedListId, todos, { title, baseVersion });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          log.info("Save rejected as a conflict", { baseVersion, currentVersion: error.current?.version ?? null });
+          return conflictResult(error, resolvedUserId);
+        }
+        throw error;
+      }
+      const savedAt = new Date().toISOString();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved ${todos.length} todos successfully.`,
+          },
+        ],
+        structuredContent: {
+          success: true,
+          savedTodos: todos.length,
+          listId: resolvedListId,
+          list,
+          userId: resolvedUserId,
+          savedAt
+        } satisfies ToolOutput<"save-todo-state">,
+        _meta: {
+          savedTodos: todos.length,
+          savedAt
+        },
+      };
+    })
+  );
+
+  // ------------------------------------------------------------------------------------------------
+  // TODO TOOLS
+  // ------------------------------------------------------------------------------------------------
+  // Register tool: Add a todo to a list
+  server.registerTool(
+    "add-todo",
+    {
+      title: "Add Todo",
+      description: "Add a todo to the top of a list",
+      inputSchema: toolSchemas["add-todo"].input,
+      outputSchema: toolSchemas["add-todo"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("add-todo"), "Adding todo", "Todo added") },
+    },
+    instrument("add-todo", async ({ listId, title, note, dueDate }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      // The store rejects lists that are full (ListFullError)
+      const todo = await store.addTodo(resolvedUserId, listId, {
+        title,
+        isComplete: false,
+        note: note ?? "",
+        dueDate: dueDate ?? null,
+      });
+
+      return listsResult(store, resolvedUserId, `Added "${todo.title}".`, listId, { todo });
+    })
+  );
+
+  // Register tool: Update fields of a todo
+  server.registerTool(
+    "update-todo",
+    {
+      title: "Update Todo",
+      description: "Change the title, note, due date or completion of a todo. Omitted fields are left unchanged.",
+      inputSchema: toolSchemas["update-todo"].input,
+      outputSchema: toolSchemas["update-todo"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("update-todo"), "Updating todo", "Todo updated") },
+    },
+    instrument("update-todo", async ({ listId, todoId, title, note, dueDate, isComplete }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const changes = Object.fromEntries(
+        Object.entries({ title, note, dueDate, isComplete }).filter(([, v]) => v !== undefined)
+      );
+      const todo = await store.updateTodo(resolvedUserId, listId, todoId, changes);
+
+      return listsResult(store, resolvedUserId, `Updated "${todo.title}".`, listId, { todo });
+    })
+  );
+
+  // Register tool: Mark a todo as complete (or incomplete)
+  server.registerTool(
+    "complete-todo",
+    {
+      title: "Complete Todo",
+      description: "Mark a todo as complete, or as not complete with completed=false",
+      inputSchema: toolSchemas["complete-todo"].input,
+      outputSchema: toolSchemas["complete-todo"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("complete-todo"), "Updating todo", "Todo updated") },
+    },
+    instrument("complete-todo", async ({ listId, todoId, completed }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const todo = await store.updateTodo(resolvedUserId, listId, todoId, { isComplete: completed });
+      const text = completed ? `Completed "${todo.title}".` : `Reopened "${todo.title}".`;
+
+      return listsResult(store, resolvedUserId, text, listId, { todo });
+    })
+  );
+
+  // Register tool: Delete a todo
+  server.registerTool(
+    "delete-todo",
+    {
+      title: "Delete Todo",
+      description: "Delete a todo from a list",
+      inputSchema: toolSchemas["delete-todo"].input,
+      outputSchema: toolSchemas["delete-todo"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("delete-todo"), "Deleting todo", "Todo deleted") },
+    },
+    instrument("delete-todo", async ({ listId, todoId }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      await store.deleteTodo(resolvedUserId, listId, todoId);
+
+      return listsResult(store, resolvedUserId, `Deleted todo ${todoId}.`, listId, { deletedTodoId: todoId });
+    })
+  );
+
+  // Register tool: Reorder the todos of a list
+  server.registerTool(
+    "reorder-todos",
+    {
+      title: "Reorder Todos",
+      description: "Reorder the todos of a list. Todos not listed keep their order after the listed ones.",
+      inputSchema: toolSchemas["reorder-todos"].input,
+      outputSchema: toolSchemas["reorder-todos"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("reorder-todos"), "Reordering todos", "Todos reordered") },
+    },
+    instrument("reorder-todos", async ({ listId, todoIds }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const list = await store.reorderTodos(resolvedUserId, listId, todoIds);
+
+      return listsResult(store, resolvedUserId, `Reordered "${list.title}".`, listId);
+    })
+  );
+
+  // ------------------------------------------------------------------------------------------------
+  // LIST TOOLS
+  // ------------------------------------------------------------------------------------------------
+  // Register tool: Create a list
+  server.registerTool(
+    "create-list",
+    {
+      title: "Create List",
+      description: "Create a new, empty todo list",
+      inputSchema: toolSchemas["create-list"].input,
+      outputSchema: toolSchemas["create-list"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("create-list"), "Creating list", "List created") },
+    },
+    instrument("create-list", async ({ title }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const list = await store.createList(resolvedUserId, title);
+
+      return listsResult(store, resolvedUserId, `Created list "${list.title}".`, list.id, { list });
+    })
+  );
+
+  // Register tool: Rename a list
+  server.registerTool(
+    "rename-list",
+    {
+      title: "Rename List",
+      description: "Change the title of a todo list",
+      inputSchema: toolSchemas["rename-list"].input,
+      outputSchema: toolSchemas["rename-list"].output,
+      _meta: { ...security, ...widgetToolMeta(widgetFor("rename-list"), "Renaming list", "List renamed") },
+    },
+    instrument("rename-list", async ({ listId, title }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const list = await store.renameList(resolvedUserId, listId, title);
+
+      return listsResult(store, resolvedUserId, `Renamed list to "${list.title}".`, listId, { list });
+    })
+  );
+
+  // Register tool: Delete a list
+  server.registerTool(
+    "delete-list",
+    {
+      title: "Delete List",
+      description: "Delete a todo list and all of its todos",
+      inputSchema: toolSchemas["delete-list"].input,
+      outputSchema: toolSchemas["delete-list"].output,
+      _meta: {
+        ...security,
+        ...widgetToolMeta(widgetFor("delete-list"), "Deleting list", "List deleted"),
+        "openai/widgetAccessible": true,  // The todo widget autosaves list deletions through this tool
+      },
+    },
+    instrument("delete-list", async ({ listId, baseVersion }, extra) => {
+      const resolvedUserId = userIdFromAuth(extra.authInfo);
+      const log = requestLogger(extra).child({ userId: resolvedUserId, listId });
+      try {
+        await store.deleteList(resolvedUserId, listId, { baseVersion });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          log.info("Delete rejected as a conflict", { baseVersion, currentVersion: error.current?.version ?? null });
+          return conflictResult(error, resolvedUserId);
+        }
+        throw error;
+      }
+      log.info("List deleted");
+
+      return listsResult(store, resolvedUserId, `Deleted list ${listId}.`, null, { deletedListId: listId });
+    })
+  );
+}
@@ -0,0 +1,156 @@
+// TRACING.TS
+/**
+ * Request logging and optional OpenTelemetry tracing of MCP requests.
+ *
+ * `traceTool()` and `traceResource()` wrap tool and resource callbacks where they are registered,
+ * so every tools/call and resources/read runs inside a span and ends with one log line carrying its
+ * correlation ids, duration and outcome. Logs written while the span is active, including those of
+ * tool handlers, carry its trace id.
+ *
+ * Spans are only recorded when OTEL_TRACES_EXPORTER selects an exporter:
+ * - `otlp`: OTLP/HTTP to a collector, by default http://localhost:4318/v1/traces
+ *   (override with OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT)
+ * - `console`: printed to stdout
+ * Otherwise the OpenTelemetry API stays a no-op and the SDK is not loaded.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { SpanKind, SpanStatusCode, trace, type Attributes } from "@opentelemetry/api";
+import type { ReadResourceCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { logger, requestLogger, type RequestExtra } from "./logger.js";
+import type { ToolHandler } from "./metrics.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+type TracesExporter = "otlp" | "console";
+
+// The MCP request a span covers
+type TracedRequest = {
+  method: "tools/call" | "resources/read";
+  tool?: string;
+  uri?: string;
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME?.trim() || "mcp-app-server";
+
+const tracer = trace.getTracer(SERVICE_NAME);
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads OTEL_TRACES_EXPORTER, or null when tracing is off.
+ *
+ * @throws Error if it names an unsupported exporter
+ */
+function tracesExporterFromEnv(): TracesExporter | null {
+  const value = process.env.OTEL_TRACES_EXPORTER?.trim().toLowerCase();
+  if (!value || value === "none") return null;
+  if (value === "otlp" || value === "console") return value;
+  throw new Error(`Unsupported OTEL_TRACES_EXPORTER "${value}". Use "otlp", "console" or "none".`);
+}
+
+/**
+ * Span attributes of an MCP request, following the OpenTelemetry MCP semantic conventions.
+ */
+function requestAttributes(request: TracedRequest, extra: RequestExtra): Attributes {
+  return {
+    "mcp.method.name": request.method,
+    "jsonrpc.request.id": String(extra.requestId),
+    ...(extra.sessionId && { "mcp.session.id": extra.sessionId }),
+    ...(request.tool && { "gen_ai.tool.name": request.tool }),
+    ...(request.uri && { "mcp.resource.uri": request.uri }),
+  };
+}
+
+/**
+ * Runs `run` inside a span for `request` and logs its outcome.
+ */
+function traced<T>(
+  request: TracedRequest,
+  extra: RequestExtra,
+  run: () => Promise<{ result: T; isError: boolean }>
+): Promise<T> {
+  const attributes = requestAttributes(request, extra);
+  const spanName = `${request.method}${request.tool ? ` ${request.tool}` : ""}`;
+
+  return tracer.startActiveSpan(spanName, { kind: SpanKind.SERVER, attributes }, async (span) => {
+    const log = requestLogger(extra).child({ method: request.method, tool: request.tool, uri: request.uri });
+    const start = performance.now();
+    try {
+      const { result, isError } = await run();
+      if (isError) span.setStatus({ code: SpanStatusCode.ERROR, message: "Tool returned isError" });
+      log.info("MCP request handled", { durationMs: Math.round(performance.now() - start), isError });
+      return result;
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      log.warn("MCP request failed", { durationMs: Math.round(performance.now() - start), error });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Starts exporting spans when OTEL_TRACES_EXPORTER is set.
+ *
+ * @returns Function that flushes and stops the exporter, or null when tracing is off
+ * @throws Error if OTEL_TRACES_EXPORTER names an unsupported exporter
+ */
+export async function initTracing(): Promise<(() => Promise<void>) | null> {
+  const exporterName = tracesExporterFromEnv();
+  if (!exporterName) return null;
+
+  const { NodeTracerProvider, BatchSpanProcessor, ConsoleSpanExporter, SimpleSpanProcessor } = await import(
+    "@opentelemetry/sdk-trace-node"
+  );
+  const { resourceFromAttributes } = await import("@opentelemetry/resources");
+
+  const spanProcessor = exporterName === "otlp"
+    ? new BatchSpanProcessor(new (await import("@opentelemetry/exporter-trace-otlp-http")).OTLPTraceExporter())
+    : new SimpleSpanProcessor(new ConsoleSpanExporter());
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": SERVICE_NAME }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+
+  logger.info("Tracing enabled", { exporter: exporterName, serviceName: SERVICE_NAME });
+  return () => provider.shutdown();
+}
+
+/**
+ * Wraps the callback of tool `tool` in a span and a log line.
+ */
+export function traceTool<Args extends [...unknown[], RequestExtra]>(
+  tool: string,
+  handler: ToolHandler<Args>
+): ToolHandler<Args> {
+  return (...args) => traced({ method: "tools/call", tool }, args[args.length - 1] as RequestExtra, async () => {
+    const result = await handler(...args);
+    return { result, isError: result.isError === true };
+  });
+}
+
+/**
+ * Wraps the callback of a resource in a span and a log line.
+ */
+export function traceResource(handler: ReadResourceCallback): ReadResourceCallback {
+  return (uri, extra) =>
+    traced({ method: "resources/read", uri: uri.href }, extra, async () => ({
+      result: await handler(uri, extra),
+      isError: false,
+    }));
+}
@@ -0,0 +1,404 @@
+// WIDGETS.TS
+/**
+ * Widget discovery and asset loading.
+ *
+ * `web/build.mts` writes `manifest.json` next to the built assets, listing every component
+ * it bundled with its files (sizes and SHA-256 hashes), build time and the metadata declared in
+ * the component's `meta.ts`. The server reads that manifest instead of hardcoding widget names
+ * or file paths, so adding a component to `web/src/components/` and rebuilding is enough to expose
+ * a new `ui://widget/<name>.html` resource. Widgets whose files are missing or differ in size from
+ * the manifest (e.g. a partial deploy) fail to load, which /readyz reports.
+ *
+ * Assets are read once into a `WidgetCache` shared by all sessions. The cache watches the manifest,
+ * which the build writes last, and reloads when a `pnpm run build` in `web/` finishes.
+ *
+ * The resource HTML either inlines the JS and CSS (the default), or, in external mode, references
+ * the files the server serves from the assets directory (see assets.ts), which keeps resources small
+ * and lets the iframe cache the bundle between renders.
+ *
+ * A build with shared vendor modules (build.vendor "shared") leaves React and the other shared
+ * packages out of each widget's JS. The resource HTML then starts with an import map pointing those
+ * imports at the vendor files the server serves, in both modes.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { WidgetConfig } from "mcp-app-shared/config";
+
+import { logger } from "./logger.js";
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/**
+ * Metadata a component declares in its `meta.ts` (mirrors `WidgetMeta` in web/src/widget.ts).
+ */
+export type WidgetMeta = {
+  description: string;
+  prefersBorder?: boolean;
+  domain?: string;
+  csp?: {
+    connectDomains?: string[];
+    resourceDomains?: string[];
+  };
+  invoking?: string;
+  invoked?: string;
+  tools?: string[];   // Tools whose results the widget renders
+};
+
+/**
+ * A file emitted by a component's build.
+ */
+export type WidgetManifestFile = {
+  path: string;                                  // Relative to the assets directory
+  kind: "js" | "css" | "sourcemap" | "asset";
+  bytes: number;
+  sha256: string;
+  gzipBytes?: number;
+  brotliBytes?: number;
+  imports?: string[];                            // JS only: vendor specifiers and files it imports
+};
+
+/**
+ * One built component, as listed in dist/manifest.json.
+ */
+export type WidgetManifestEntry = {
+  name: string;
+  js: string;
+  css: string | null;
+  html: string;
+  files: WidgetManifestFile[];
+  builtAt: string;
+  meta: WidgetMeta | null;
+};
+
+/**
+ * Vendor modules shared by every widget, as listed in dist/manifest.json.
+ */
+export type WidgetVendor = {
+  imports: Record<string, string>;  // Import specifier -> file, relative to the assets directory
+  files: WidgetManifestFile[];
+  builtAt: string;
+};
+
+/**
+ * dist/manifest.json.
+ */
+export type WidgetManifest = {
+  version: number;
+  builtAt: string;
+  widgets: WidgetManifestEntry[];
+  vendor: WidgetVendor | null;
+};
+
+/**
+ * How the resource HTML includes a widget's JS and CSS.
+ */
+export type WidgetAssetOptions = {
+  assetsDir: string;   // Directory holding the built assets (web/dist)
+  baseUrl: string;     // URL the assets directory is served at
+  external: boolean;   // Reference the files at baseUrl instead of inlining them
+};
+
+/**
+ * A widget ready to be registered as an MCP resource.
+ */
+export type Widget = {
+  name: string;
+  uri: string;
+  html: string;
+  hash: string;  // Content hash of the HTML, used to detect changes between builds
+  builtAt: string;
+  meta: WidgetMeta | null;
+  assetOrigins: string[];  // Origins the HTML loads files from, to allow in the widget CSP
+};
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// How often the manifest is polled for changes (ms)
+const WATCH_INTERVAL_MS = 500;
+
+// Manifest format this server reads (MANIFEST_VERSION in web/build.mts)
+const MANIFEST_VERSION = 1;
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Returns the resource URI a widget is served under. Tools reference it in "openai/outputTemplate".
+ */
+export function widgetUri(name: string): string {
+  return `ui://widget/${name}.html`;
+}
+
+/**
+ * Maps a widget's declared metadata to the `openai/*` resource `_meta` fields ChatGPT reads.
+ * The configured widget domain wins over the component's; CSP domains of both are combined,
+ * along with the origins the widget's HTML loads files from.
+ */
+export function widgetResourceMeta(
+  meta: WidgetMeta | null,
+  config: WidgetConfig,
+  assetOrigins: string[] = []
+): Record<string, unknown> {
+  const domain = config.domain ?? meta?.domain;
+  const connectDomains = [...new Set([...config.csp.connectDomains, ...(meta?.csp?.connectDomains ?? [])])];
+  const resourceDomains = [
+    ...new Set([...config.csp.resourceDomains, ...(meta?.csp?.resourceDomains ?? []), ...assetOrigins]),
+  ];
+
+  return {
+    ...(meta && {
+      "openai/widgetDescription": meta.description,                  // Shown to the model when the widget renders, so it avoids repeating what is displayed
+    }),
+    ...(meta?.prefersBorder !== undefined && {
+      "openai/widgetPrefersBorder": meta.prefersBorder,              // Rounded border and shadow instead of full-bleed
+    }),
+    ...(domain && {
+      "openai/widgetDomain": domain,                                 // Sandbox subdomain for the HTML, also the base URL for external links
+    }),
+    ...((connectDomains.length > 0 || resourceDomains.length > 0) && {
+      "openai/widgetCSP": {                                          // Required for network requests and openai.openExternal() validation
+        connect_domains: connectDomains,                             // Maps to `connect-src` rule in the iframe CSP
+        resource_domains: resourceDomains,                           // Maps to style-src, img-src, font-src, media-src etc.
+      },
+    }),
+  };
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Reads the widget manifest written by `web/build.mts`.
+ *
+ * @param assetsDir - Directory holding the built assets (web/dist)
+ * @throws Error if the assets directory or manifest cannot be found, or the manifest is of another format
+ */
+export function loadWidgetManifest(assetsDir: string): WidgetManifest {
+  const manifestPath = path.join(assetsDir, "manifest.json");
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(
+      `Widget manifest not found at ${manifestPath}. Run "cd web && pnpm run build" before starting the server.`
+    );
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as Partial<WidgetManifest>;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(
+      `Widget manifest at ${manifestPath} has format version ${manifest.version ?? "(none)"}, expected ${MANIFEST_VERSION}. Run "cd web && pnpm run build" to rebuild it.`
+    );
+  }
+  return {
+    version: manifest.version,
+    builtAt: manifest.builtAt ?? "",
+    widgets: manifest.widgets ?? [],
+    vendor: manifest.vendor ?? null,
+  };
+}
+
+/**
+ * Checks that every file the manifest lists for a widget (or the vendor modules) is on disk with
+ * the listed size.
+ *
+ * @throws Error naming the first missing or mismatched file
+ */
+export function verifyWidgetFiles(assetsDir: string, entry: Pick<WidgetManifestEntry, "name" | "files">) {
+  for (const file of entry.files) {
+    const size = fs.statSync(path.join(assetsDir, file.path), { throwIfNoEntry: false })?.size;
+    if (size === undefined) {
+      throw new Error(`Widget "${entry.name}" is missing ${file.path}. Rebuild or redeploy the assets.`);
+    }
+    if (size !== file.bytes) {
+      throw new Error(
+        `Widget "${entry.name}" file ${file.path} is ${size} bytes, the manifest lists ${file.bytes}. Rebuild or redeploy the assets.`
+      );
+    }
+  }
+}
+
+/**
+ * The import map resolving shared vendor imports to the files served at `baseUrl`.
+ */
+function importMapScript(vendor: WidgetVendor, baseUrl: string): string {
+  const imports = Object.fromEntries(
+    Object.entries(vendor.imports).map(([specifier, file]) => [specifier, `${baseUrl}/${file}`])
+  );
+  // Escaped, so a "</script>" in a URL cannot end the element
+  return `<script type="importmap">${JSON.stringify({ imports }).replace(/</g, "\\u003c")}</script>`;
+}
+
+/**
+ * Loads widget assets (JS and CSS) and constructs self-contained HTML.
+ * Follows the official MCP pattern: read JS/CSS files directly and inline them.
+ * In external mode, the HTML references the files at the base URL instead.
+ *
+ * @param options - Assets directory, the URL it is served at, and whether to reference the files
+ * @param entry - Manifest entry of the component (e.g., "todo")
+ * @param vendor - Shared vendor modules of the build, loaded through an import map
+ * @returns HTML for the widget
+ * @throws Error if required assets cannot be found
+ */
+export function loadWidgetHtml(
+  options: WidgetAssetOptions,
+  entry: WidgetManifestEntry,
+  vendor: WidgetVendor | null = null
+): string {
+  const { assetsDir, baseUrl, external } = options;
+  const importMap = vendor ? importMapScript(vendor, baseUrl) : "";
+
+  // Load JS file
+  const jsPath = path.join(assetsDir, entry.js);
+  if (!fs.existsSync(jsPath)) {
+    throw new Error(
+      `Widget JS for "${entry.name}" not found at ${jsPath}. Run "cd web && pnpm run build" to generate the assets.`
+    );
+  }
+
+  // Reference the served files; their names change with their content, so the HTML does too
+  if (external) {
+    return `
+<div id="${entry.name}-root"></div>
+${entry.css ? `<link rel="stylesheet" href="${baseUrl}/${entry.css}">` : ""}
+${importMap}
+<script type="module" src="${baseUrl}/${entry.js}"></script>
+    `.trim();
+  }
+
+  const js = fs.readFileSync(jsPath, "utf8");
+
+  // Load CSS file (optional)
+  const css = (() => {
+    if (!entry.css) return "";
+    try {
+      return fs.readFileSync(path.join(assetsDir, entry.css), "utf8");
+    } catch {
+      return ""; // CSS optional
+    }
+  })();
+
+  // Construct self-contained HTML (inline JS and CSS)
+  return `
+<div id="${entry.name}-root"></div>
+${css ? `<style>${css}</style>` : ""}
+${importMap}
+<script type="module">${js}</script>
+  `.trim();
+}
+
+/**
+ * Discovers every built widget and loads its HTML.
+ *
+ * @param options - Assets directory, the URL it is served at, and whether to reference the files
+ */
+export function loadWidgets(options: WidgetAssetOptions): Widget[] {
+  const { widgets, vendor } = loadWidgetManifest(options.assetsDir);
+  if (vendor) verifyWidgetFiles(options.assetsDir, { name: "vendor", files: vendor.files });
+
+  // Files loaded from the server rather than inlined must be allowed by the widget CSP
+  const assetOrigins = options.external || vendor ? [new URL(options.baseUrl).origin] : [];
+
+  return widgets.map((entry) => {
+    verifyWidgetFiles(options.assetsDir, entry);
+    const html = loadWidgetHtml(options, entry, vendor);
+    return {
+      name: entry.name,
+      uri: widgetUri(entry.name),
+      html,
+      hash: createHash("sha256").update(html).digest("hex").slice(0, 12),
+      builtAt: entry.builtAt,
+      meta: entry.meta,
+      assetOrigins,
+    };
+  });
+}
+
+// ------------------------------------------------------------------------------------------------
+// WIDGET CACHE
+// ------------------------------------------------------------------------------------------------
+/**
+ * Loads widgets once and serves them from memory to every session.
+ *
+ * Call `watch()` to reload automatically after a rebuild. If a reload fails (for example while
+ * the build is still writing files), the previous widgets keep being served.
+ */
+export class WidgetCache {
+  private widgets: Map<string, Widget> | null = null;
+
+  constructor(private readonly options: WidgetAssetOptions) {}
+
+  /**
+   * Returns every cached widget, loading them on first use.
+   *
+   * @throws Error if the assets have not been built
+   */
+  list(): Widget[] {
+    if (!this.widgets) {
+      this.widgets = new Map(loadWidgets(this.options).map((w) => [w.name, w]));
+    }
+    return [...this.widgets.values()];
+  }
+
+  /**
+   * Returns a single widget by component name, or undefined if it is not in the build.
+   */
+  get(name: string): Widget | undefined {
+    this.list();
+    return this.widgets?.get(name);
+  }
+
+  /**
+   * Returns the widget that renders a tool's results (its meta.ts lists the tool), or undefined.
+   */
+  forTool(tool: string): Widget | undefined {
+    return this.list().find((widget) => widget.meta?.tools?.includes(tool));
+  }
+
+  /**
+   * Re-reads the assets from disk.
+   *
+   * @returns true if a widget was added, removed or changed content
+   * @throws Error if the assets cannot be loaded; the previous widgets are kept
+   */
+  reload(): boolean {
+    const next = new Map(loadWidgets(this.options).map((w) => [w.name, w]));
+    const prev = this.widgets;
+    this.widgets = next;
+
+    if (!prev || prev.size !== next.size) return true;
+    for (const [name, widget] of next) {
+      if (prev.get(name)?.hash !== widget.hash) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Watches the manifest and reloads whenever a build finishes.
+   *
+   * @param onChange - Called with the new widgets after a reload that changed something
+   * @returns Function that stops watching
+   */
+  watch(onChange: (widgets: Widget[]) => void): () => void {
+    const manifestPath = path.join(this.options.assetsDir, "manifest.json");
+
+    const listener = (curr: fs.Stats, prev: fs.Stats) => {
+      // Ignore the manifest disappearing while the build wipes dist/
+      if (curr.mtimeMs === 0 || curr.mtimeMs === prev.mtimeMs) return;
+
+      try {
+        if (this.reload()) onChange(this.list());
+      } catch (error) {
+        logger.error("Failed to reload widget assets, keeping previous build", { error });
+      }
+    };
+
+    fs.watchFile(manifestPath, { interval: WATCH_INTERVAL_MS }, listener);
+    return () => fs.unwatchFile(manifestPath, listener);
+  }
+}
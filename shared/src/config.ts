@@ -0,0 +1,324 @@
+// CONFIG.TS
+/**
+ * Configuration of the MCP server and the widget build, in one place (Node only; import it as
+ * `mcp-app-shared/config`, never from widget code).
+ *
+ * Values come from, in order of precedence:
+ * 1. Environment variables (PORT, BASE_URL, ...; see ENV_VARS)
+ * 2. `mcp-app.config.ts` at the project root, or the file named by MCP_APP_CONFIG (optional)
+ * 3. Defaults
+ *
+ * `loadConfig()` validates the merged values with zod and throws a ConfigError listing every
+ * invalid one, so the server and the build stop before doing anything with a bad setting.
+ * Relative paths are resolved against the project root.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+import { z } from "zod";
+
+// ------------------------------------------------------------------------------------------------
+// SCHEMAS
+// ------------------------------------------------------------------------------------------------
+const httpUrlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//.test(value), "Expected an http(s) URL");
+
+// Counts and durations read from environment variables as strings
+const nonNegativeNumberSchema = z.coerce.number().min(0);
+const positiveIntegerSchema = z.coerce.number().int().positive();
+
+const sizeBudgetSchema = z.object({
+  maxJsBytes: z.number().int().positive().optional(),     // Minified JS of one widget
+  maxCssBytes: z.number().int().positive().optional(),    // Its CSS
+  maxGzipBytes: z.number().int().positive().optional(),   // JS and CSS together, gzipped
+});
+
+export const configSchema = z.object({
+  // Port the MCP server listens on
+  port: z.coerce.number().int().min(1).max(65535).default(8000),
+  // Public URL of the server (e.g. a tunnel URL); defaults to http://localhost:<port>
+  baseUrl: httpUrlSchema.optional(),
+  // Where the build writes widget assets and the server reads them
+  assetsDir: z.string().min(1).default("web/dist"),
+  // Also serve the build's source maps and manifest.json from assetsDir. Off by default: they
+  // reveal the widgets' source code and the build's file list to anyone
+  exposeBuildFiles: z.boolean().default(false),
+  // Sandbox settings applied to every widget resource, merged with each component's meta.ts
+  widget: z
+    .object({
+      domain: httpUrlSchema.optional(),                            // openai/widgetDomain
+      // "inline" puts the JS and CSS into the resource HTML; "external" references the files
+      // the server serves from assetsDir under baseUrl
+      assets: z.enum(["inline", "external"]).default("inline"),
+      csp: z
+        .object({
+          connectDomains: z.array(httpUrlSchema).default([]),      // connect-src
+          resourceDomains: z.array(z.string().min(1)).default([]), // style-src, img-src, font-src, ...
+        })
+        .default({}),
+    })
+    .default({}),
+  // Browsers and host names allowed on the MCP endpoints
+  cors: z
+    .object({
+      allowedOrigins: z.array(z.string().min(1)).optional(),      // Defaults to local pages
+      allowedHosts: z.array(z.string().min(1)).default([]),       // In addition to localhost and BASE_URL's host
+    })
+    .default({}),
+  // How MCP requests are authenticated: "none" (every call acts for the default user), "dev"
+  // (the bundled dev authorization server) or "introspection" (an external authorization server)
+  auth: z
+    .object({
+      mode: z.enum(["none", "dev", "introspection"]).default("none"),
+      issuer: httpUrlSchema.optional(),                            // External server's issuer URL
+      introspectionUrl: httpUrlSchema.optional(),                  // Its RFC 7662 endpoint
+      clientId: z.string().min(1).optional(),                      // Credentials for that endpoint
+      clientSecret: z.string().min(1).optional(),
+    })
+    .superRefine((auth, ctx) => {
+      if (auth.mode !== "introspection") return;
+      for (const key of ["issuer", "introspectionUrl"] as const) {
+        if (!auth[key]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: "Required with introspection auth" });
+      }
+    })
+    .default({}),
+  // MCP session lifecycle
+  sessions: z
+    .object({
+      idleTtlSeconds: nonNegativeNumberSchema.default(30 * 60),             // 0 disables expiry
+      maxSessions: nonNegativeNumberSchema.int().default(1000),             // 0 means no limit
+      keepaliveSeconds: nonNegativeNumberSchema.default(25),                // 0 disables legacy SSE keepalives
+      shutdownTimeoutSeconds: nonNegativeNumberSchema.default(10),
+    })
+    .default({}),
+  // Limits on MCP message posts
+  limits: z
+    .object({
+      maxBodyBytes: positiveIntegerSchema.default(1024 * 1024),             // Also dev authorization server requests
+      maxArrayLength: positiveIntegerSchema.default(1000),                  // Anywhere in a message
+      sessionRatePerMinute: nonNegativeNumberSchema.default(300),           // 0 disables
+      userRatePerMinute: nonNegativeNumberSchema.default(600),              // 0 disables
+      rateLimitBurst: positiveIntegerSchema.default(30),                    // Messages at once
+    })
+    .default({}),
+  // Where todo lists are kept
+  storage: z
+    .discriminatedUnion("backend", [
+      z.object({ backend: z.literal("file"), path: z.string().min(1).default("server/data/todos.json") }),
+      z.object({ backend: z.literal("memory") }),
+    ])
+    .default({ backend: "file" }),
+  // Widget build (web/build.mts)
+  build: z
+    .object({
+      sourcemap: z.boolean().default(true),
+      // Size budgets by widget name, "*" for widgets without their own; exceeding one fails the build
+      budgets: z.record(z.string(), sizeBudgetSchema).default({}),
+      // "bundled": every widget carries its own copy of its dependencies. "shared": vendorPackages
+      // are built once into assets/vendor/ and widgets load them through an import map
+      vendor: z.enum(["bundled", "shared"]).default("bundled"),
+      // Import specifiers shared in "shared" mode; other imports stay in each widget's bundle.
+      // Icon sets such as lucide-react are left out: shared, they would ship every icon
+      vendorPackages: z
+        .array(z.string().min(1))
+        .default(["react", "react/jsx-runtime", "react-dom", "react-dom/client", "framer-motion", "react-datepicker"]),
+    })
+    .default({}),
+});
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+/** What `mcp-app.config.ts` may contain; every field is optional. */
+export type AppConfigInput = z.input<typeof configSchema>;
+
+type ParsedConfig = z.output<typeof configSchema>;
+
+/** Validated configuration, with defaults applied and paths made absolute. */
+export type AppConfig = Omit<ParsedConfig, "baseUrl"> & {
+  baseUrl: string;        // Without a trailing slash
+  rootDir: string;        // Project root
+  configFile: string | null;  // Config file that was loaded, if any
+};
+
+export type WidgetConfig = AppConfig["widget"];
+export type StorageConfig = AppConfig["storage"];
+export type AuthConfig = AppConfig["auth"];
+export type SizeBudget = z.output<typeof sizeBudgetSchema>;
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Project root: this file lives in <root>/shared/src
+export const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..");
+
+const DEFAULT_CONFIG_FILE = "mcp-app.config.ts";
+
+/**
+ * Environment variable of each setting. List values are comma-separated.
+ */
+export const ENV_VARS = {
+  port: "PORT",
+  baseUrl: "BASE_URL",
+  assetsDir: "ASSETS_DIR",
+  "widget.domain": "WIDGET_DOMAIN",
+  "widget.assets": "WIDGET_ASSETS",
+  "widget.csp.connectDomains": "WIDGET_CONNECT_DOMAINS",
+  "widget.csp.resourceDomains": "WIDGET_RESOURCE_DOMAINS",
+  "cors.allowedOrigins": "CORS_ALLOWED_ORIGINS",
+  "cors.allowedHosts": "ALLOWED_HOSTS",
+  "auth.mode": "AUTH_MODE",
+  "auth.issuer": "AUTH_ISSUER",
+  "auth.introspectionUrl": "AUTH_INTROSPECTION_URL",
+  "auth.clientId": "AUTH_CLIENT_ID",
+  "auth.clientSecret": "AUTH_CLIENT_SECRET",
+  "sessions.idleTtlSeconds": "SESSION_IDLE_TTL_SECONDS",
+  "sessions.maxSessions": "MAX_SESSIONS",
+  "sessions.keepaliveSeconds": "SSE_KEEPALIVE_SECONDS",
+  "sessions.shutdownTimeoutSeconds": "SHUTDOWN_TIMEOUT_SECONDS",
+  "limits.maxBodyBytes": "MAX_BODY_BYTES",
+  "limits.maxArrayLength": "MAX_ARRAY_LENGTH",
+  "limits.sessionRatePerMinute": "SESSION_RATE_LIMIT_PER_MINUTE",
+  "limits.userRatePerMinute": "USER_RATE_LIMIT_PER_MINUTE",
+  "limits.rateLimitBurst": "RATE_LIMIT_BURST",
+  "storage.backend": "STORAGE_BACKEND",
+  "storage.path": "TODO_STORE_PATH",
+  "build.vendor": "BUILD_VENDOR",
+} as const;
+
+// Settings whose environment variable holds a comma-separated list
+const LIST_SETTINGS = new Set<string>([
+  "widget.csp.connectDomains",
+  "widget.csp.resourceDomains",
+  "cors.allowedOrigins",
+  "cors.allowedHosts",
+]);
+
+// ------------------------------------------------------------------------------------------------
+// ERRORS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Thrown when the configuration is invalid. The message lists every problem.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Identity helper that gives `mcp-app.config.ts` type checking.
+ *
+ * Example usage:
+ * ```ts
+ * export default defineConfig({
+ *   widget: { domain: "https://chatgpt.com" },
+ *   storage: { backend: "memory" },
+ * });
+ * ```
+ */
+export function defineConfig(config: AppConfigInput): AppConfigInput {
+  return config;
+}
+
+/**
+ * Sets a value at a dotted path (`widget.csp.connectDomains`), creating objects on the way.
+ */
+function setPath(target: Record<string, unknown>, dottedPath: string, value: unknown) {
+  const keys = dottedPath.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = node[key];
+    node = (node[key] = typeof next === "object" && next !== null ? { ...next } : {}) as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Overlays the environment variables that are set onto the file config.
+ */
+function applyEnv(fileConfig: AppConfigInput, env: NodeJS.ProcessEnv): Record<string, unknown> {
+  const merged: Record<string, unknown> = structuredClone(fileConfig) as Record<string, unknown>;
+  for (const [setting, name] of Object.entries(ENV_VARS)) {
+    const raw = env[name]?.trim();
+    if (!raw) continue;
+    const value = LIST_SETTINGS.has(setting) ? raw.split(",").map((entry) => entry.trim()).filter(Boolean) : raw;
+    setPath(merged, setting, value);
+  }
+
+  // A storage path alone implies the file backend
+  const storage = merged.storage as { backend?: string; path?: string } | undefined;
+  if (storage?.path && !storage.backend) storage.backend = "file";
+  return merged;
+}
+
+/**
+ * Formats a zod issue as "setting (ENV_VAR): message".
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  const setting = issue.path.join(".");
+  const envVar = Object.entries(ENV_VARS).find(([key]) => setting === key || setting.startsWith(`${key}.`))?.[1];
+  return `${setting || "config"}${envVar ? ` (${envVar})` : ""}: ${issue.message}`;
+}
+
+/**
+ * Imports the config file, if there is one.
+ *
+ * @throws ConfigError if the file named by MCP_APP_CONFIG is missing or a file cannot be loaded
+ */
+async function readConfigFile(env: NodeJS.ProcessEnv): Promise<{ file: string | null; config: AppConfigInput }> {
+  const explicit = env.MCP_APP_CONFIG?.trim();
+  const file = path.resolve(PROJECT_ROOT, explicit || DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(file)) {
+    if (explicit) throw new ConfigError([`MCP_APP_CONFIG: ${file} does not exist`]);
+    return { file: null, config: {} };
+  }
+
+  try {
+    const module = await import(pathToFileURL(file).href);
+    return { file, config: module.default ?? {} };
+  } catch (error) {
+    throw new ConfigError([`${path.relative(PROJECT_ROOT, file)}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Loads, merges and validates the configuration.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @throws ConfigError listing every invalid setting
+ */
+export async function loadConfig(env: NodeJS.ProcessEnv = process.env): Promise<AppConfig> {
+  const { file, config: fileConfig } = await readConfigFile(env);
+
+  const result = configSchema.safeParse(applyEnv(fileConfig, env));
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(describeIssue));
+  }
+  const config = result.data;
+
+  return {
+    ...config,
+    baseUrl: (config.baseUrl ?? `http://localhost:${config.port}`).replace(/\/+$/, ""),
+    assetsDir: path.resolve(PROJECT_ROOT, config.assetsDir),
+    storage: config.storage.backend === "file"
+      ? { ...config.storage, path: path.resolve(PROJECT_ROOT, config.storage.path) }
+      : config.storage,
+    rootDir: PROJECT_ROOT,
+    configFile: file,
+  };
+}
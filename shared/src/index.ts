@@ -0,0 +1,10 @@
+// INDEX.TS
+/**
+ * Schemas and types shared by the MCP server and the widgets.
+ */
+
+export * from "./todo.js";
+export * from "./tools.js";
+
+// Lets consumers type schemas and validation errors without depending on zod themselves
+export type { ZodError, ZodType } from "zod";
@@ -0,0 +1,63 @@
+// TODO.TS
+/**
+ * Schemas of the todo data exchanged between the MCP server and the todo widget.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { z } from "zod";
+
+// ------------------------------------------------------------------------------------------------
+// CONSTANTS
+// ------------------------------------------------------------------------------------------------
+// Most todos a tool accepts for one list (save-todo-state, reorder-todos)
+export const MAX_TODOS_PER_LIST = 500;
+
+// ------------------------------------------------------------------------------------------------
+// SCHEMAS
+// ------------------------------------------------------------------------------------------------
+export const todoSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  isComplete: z.boolean(),
+  note: z.string().optional(),
+  dueDate: z.string().nullable().optional(),  // YYYY-MM-DD or null when unset
+});
+
+export const todoListSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  isCurrentlyOpen: z.boolean().optional(),
+  todos: z.array(todoSchema),
+  version: z.number().int(),   // Increases by one on every change to the title or todos
+  updatedAt: z.string(),       // ISO timestamp of the last change
+});
+
+/**
+ * What the todo widget reads from window.openai.toolOutput. The widget renders the output of
+ * every tool that points at it (show-todo, add-todo, ...), so only the common part is required.
+ */
+export const todoWidgetOutputSchema = z.object({
+  lists: z.array(todoListSchema).optional(),
+  partial: z.boolean().optional(),
+  message: z.string().optional(),
+  userId: z.string().optional(),
+});
+
+/**
+ * The todo widget's state (window.openai.widgetState), which ChatGPT also shows the model.
+ * This is version 1; web/src/components/todo/state.ts migrates state written by older widgets.
+ */
+export const todoWidgetStateSchema = z.object({
+  lastUpdated: z.string(),           // Newest `updatedAt` of the lists (ISO timestamp)
+  totalTodos: z.number().int().min(0),
+});
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+export type Todo = z.infer<typeof todoSchema>;
+export type TodoList = z.infer<typeof todoListSchema>;
+export type TodoWidgetOutput = z.infer<typeof todoWidgetOutputSchema>;
+export type TodoWidgetState = z.infer<typeof todoWidgetStateSchema>;
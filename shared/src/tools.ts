@@ -0,0 +1,198 @@
+// TOOLS.TS
+/**
+ * Input and output schemas of every MCP tool, defined once for the server and the widgets.
+ *
+ * - The server registers `input` as the tool's inputSchema and `output` as its outputSchema,
+ *   so the SDK validates arguments and structuredContent against them
+ * - The widgets use the inferred types (ToolInput, ToolOutput) to type callTool and
+ *   toolOutput, and the schemas to validate toolOutput at runtime
+ *
+ * Schemas are zod raw shapes (objects of zod types), the form McpServer.registerTool expects.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import { z } from "zod";
+
+import { MAX_TODOS_PER_LIST, todoListSchema, todoSchema } from "./todo.js";
+
+// ------------------------------------------------------------------------------------------------
+// SCHEMAS
+// ------------------------------------------------------------------------------------------------
+const listIdSchema = z.string().describe("ID of the list");
+const todoIdSchema = z.string().describe("ID of the todo");
+const dueDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  .nullable()
+  .describe("Due date as YYYY-MM-DD, or null to clear it");
+const baseVersionSchema = (action: string) =>
+  z
+    .number()
+    .int()
+    .optional()
+    .describe(`List version the caller last saw; the ${action} is rejected as a conflict if the list changed since`);
+
+// The user's lists, returned by every tool that changes them
+const listsOutput = {
+  lists: z.array(todoListSchema),
+  userId: z.string(),
+};
+
+// A write rejected because the list changed since the caller read it
+const conflictOutput = {
+  success: z.boolean(),
+  conflict: z.boolean().optional(),
+  listId: z.string(),
+  list: todoListSchema.nullable(),   // Stored list, or null if it was deleted
+  userId: z.string(),
+};
+
+/**
+ * Every tool, by name.
+ */
+export const toolSchemas = {
+  "show-todo": {
+    input: {
+      message: z.string().describe("A message to display with the widget."),
+    },
+    output: {
+      ...listsOutput,
+      message: z.string(),
+    },
+  },
+
+  "refresh-todos": {
+    input: {
+      listId: z.string().optional().describe("ID of the list to refresh"),
+    },
+    output: {
+      ...listsOutput,
+      partial: z.boolean().optional(),   // A single refreshed list, not all of the user's lists
+      refreshedAt: z.string(),
+    },
+  },
+
+  "save-todo-state": {
+    input: {
+      todos: z.array(todoSchema).max(MAX_TODOS_PER_LIST).describe("Array of todo items to save"),
+      listId: z.string().optional().describe("ID of the list being saved"),
+      title: z.string().optional().describe("Title of the list being saved"),
+      baseVersion: baseVersionSchema("save"),
+    },
+    output: {
+      ...conflictOutput,
+      savedTodos: z.number().int().optional(),
+      savedAt: z.string().optional(),
+    },
+  },
+
+  "add-todo": {
+    input: {
+      listId: listIdSchema,
+      title: z.string().min(1).describe("Title of the todo"),
+      note: z.string().optional().describe("Optional note shown under the title"),
+      dueDate: dueDateSchema.optional(),
+    },
+    output: { ...listsOutput, todo: todoSchema },
+  },
+
+  "update-todo": {
+    input: {
+      listId: listIdSchema,
+      todoId: todoIdSchema,
+      title: z.string().min(1).optional().describe("New title"),
+      note: z.string().optional().describe("New note"),
+      dueDate: dueDateSchema.optional(),
+      isComplete: z.boolean().optional().describe("New completion state"),
+    },
+    output: { ...listsOutput, todo: todoSchema },
+  },
+
+  "complete-todo": {
+    input: {
+      listId: listIdSchema,
+      todoId: todoIdSchema,
+      completed: z.boolean().default(true).describe("Whether the todo is complete"),
+    },
+    output: { ...listsOutput, todo: todoSchema },
+  },
+
+  "delete-todo": {
+    input: {
+      listId: listIdSchema,
+      todoId: todoIdSchema,
+    },
+    output: { ...listsOutput, deletedTodoId: z.string() },
+  },
+
+  "reorder-todos": {
+    input: {
+      listId: listIdSchema,
+      todoIds: z
+        .array(z.string())
+        .min(1)
+        .max(MAX_TODOS_PER_LIST)
+        .refine((ids) => new Set(ids).size === ids.length, "Todo IDs must be unique")
+        .describe("Todo IDs in their new order"),
+    },
+    output: listsOutput,
+  },
+
+  "create-list": {
+    input: {
+      title: z.string().min(1).describe("Title of the list"),
+    },
+    output: { ...listsOutput, list: todoListSchema },
+  },
+
+  "rename-list": {
+    input: {
+      listId: listIdSchema,
+      title: z.string().min(1).describe("New title of the list"),
+    },
+    output: { ...listsOutput, list: todoListSchema },
+  },
+
+  "delete-list": {
+    input: {
+      listId: listIdSchema,
+      baseVersion: baseVersionSchema("delete"),
+    },
+    // Either the remaining lists, or a conflict
+    output: {
+      lists: listsOutput.lists.optional(),
+      deletedListId: z.string().optional(),
+      success: conflictOutput.success.optional(),
+      conflict: conflictOutput.conflict,
+      listId: conflictOutput.listId.optional(),
+      list: conflictOutput.list.optional(),
+      userId: z.string(),
+    },
+  },
+} satisfies Record<string, { input: z.ZodRawShape; output: z.ZodRawShape }>;
+
+// ------------------------------------------------------------------------------------------------
+// TYPES
+// ------------------------------------------------------------------------------------------------
+export type ToolName = keyof typeof toolSchemas;
+
+/** Arguments a caller passes to a tool (defaults not yet applied). */
+export type ToolInput<N extends ToolName> = z.input<z.ZodObject<(typeof toolSchemas)[N]["input"]>>;
+
+/** Arguments a tool handler receives (after validation and defaults). */
+export type ToolArgs<N extends ToolName> = z.output<z.ZodObject<(typeof toolSchemas)[N]["input"]>>;
+
+/** The structuredContent a tool returns. */
+export type ToolOutput<N extends ToolName> = z.output<z.ZodObject<(typeof toolSchemas)[N]["output"]>>;
+
+// ------------------------------------------------------------------------------------------------
+// FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+/**
+ * Schema of a tool's structuredContent, for validating it at runtime.
+ */
+export function toolOutputSchema<N extends ToolName>(name: N) {
+  return z.object(toolSchemas[name].output);
+}
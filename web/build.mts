@@ -1,43 +1,212 @@
 /**
  * Build script that bundles React components into standalone assets.
  * Finds all components in src/components/, bundles them with Vite, and generates
- * HTML/CSS/JS files in the dist/ directory for use by the MCP server.
+ * HTML/CSS/JS files in the assets directory (web/dist by default) for use by the MCP server.
+ * Also writes manifest.json there, which the server reads to register one widget per component.
+ *
+ * The assets directory and the base URL in the generated HTML come from the shared
+ * configuration (environment variables and mcp-app.config.ts), the same values the server reads.
+ *
+ * JS and CSS get content-hashed names under assets/ (e.g. assets/todo-3f9a1c2b.js), so the server
+ * can cache them forever; <name>.html and manifest.json keep fixed names and point at them.
+ *
+ * manifest.json is the single description of the build for the server, health checks and deploy
+ * tooling: for every widget its HTML, JS and CSS, each emitted file with its size and SHA-256,
+ * when it was built, and the metadata from its meta.ts.
+ *
+ * With build.vendor set to "shared", the packages in build.vendorPackages (React, framer-motion, ...)
+ * are built once into assets/vendor/, one ES module per import specifier, and left out of every
+ * widget bundle. The manifest lists them as an import map, which the widget HTML includes so the
+ * browser resolves `import ... from "react"` to the file the server serves.
+ *
+ * Usage:
+ *   tsx build.mts                      Build every component in parallel
+ *   tsx build.mts --component todo     Build only the named component(s); others keep their last build
+ *   tsx build.mts --watch              Rebuild a component whenever one of its source files changes
+ *
+ * Every build ends with a size report per widget. Widgets over a size budget (build.budgets in
+ * mcp-app.config.ts) fail the build; in watch mode they are reported and watching continues.
+ *
+ * The HTML files and manifest.json are written only once every widget has built within budget, so
+ * a failed build leaves a running server on the previous one; the hashed files it wrote are then
+ * deleted. Files of replaced builds are deleted after the new manifest no longer points at them.
  */
-import { build, type InlineConfig } from "vite";
+import { build, type InlineConfig, type Rollup } from "vite";
 import react from "@vitejs/plugin-react";
+import { createHash } from "crypto";
 import fg from "fast-glob";
 import path from "path";
 import fs from "fs";
+import os from "os";
+import zlib from "zlib";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
 import tailwindcss from "@tailwindcss/vite";
+import { ConfigError, loadConfig, type SizeBudget } from "mcp-app-shared/config";
+import type { WidgetMeta } from "./src/widget";
 
-// Find all component entry points
-const entries = fg.sync("src/components/**/index.{tsx,jsx}");
-const outDir = "dist";
+type ManifestFile = {
+  path: string;                                  // Relative to the assets directory
+  kind: "js" | "css" | "sourcemap" | "asset";
+  bytes: number;
+  sha256: string;                                // Hex digest of the contents
+  gzipBytes?: number;                            // JS and CSS only
+  brotliBytes?: number;
+  imports?: string[];                            // JS only: vendor specifiers and files it imports
+};
 
-if (!entries.length) {
+type ManifestEntry = {
+  name: string;
+  js: string;
+  css: string | null;
+  html: string;
+  files: ManifestFile[];      // Every file the widget's build emitted
+  builtAt: string;            // ISO timestamp; a partial build leaves other widgets' unchanged
+  meta: WidgetMeta | null;
+};
+
+type VendorManifest = {
+  imports: Record<string, string>;   // Import map: package specifier -> file
+  files: ManifestFile[];
+  builtAt: string;
+};
+
+type Manifest = {
+  version: 1;
+  builtAt: string;            // ISO timestamp of the build that last wrote the manifest
+  widgets: ManifestEntry[];
+  vendor: VendorManifest | null;   // Shared vendor modules, when build.vendor is "shared"
+};
+
+type Component = {
+  name: string;      // Directory name, e.g. "todo"
+  entry: string;     // Absolute path of its index.tsx / index.jsx
+  dir: string;
+};
+
+type WidgetSize = {
+  name: string;
+  js: number;
+  css: number;
+  gzip: number;      // JS + CSS
+  brotli: number;    // JS + CSS
+  overBudget: string[];
+};
+
+// Version of the manifest format; bump it when entries change incompatibly
+const MANIFEST_VERSION = 1;
+
+// Parse command line flags
+const { values: args } = parseArgs({
+  options: {
+    watch: { type: "boolean", default: false },
+    component: { type: "string", short: "c", multiple: true },
+  },
+});
+
+// Load the shared configuration; stop before touching the assets directory if it is invalid
+const config = await loadConfig().catch((error) => {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+});
+
+const outDir = config.assetsDir;
+const baseUrl = config.baseUrl;
+const manifestPath = path.join(outDir, "manifest.json");
+const sharedVendor = config.build.vendor === "shared";
+
+// Paths are printed relative to the working directory
+const displayPath = (file: string) => path.relative(process.cwd(), file) || ".";
+
+// Find all component entry points, e.g. "src/components/todo/index.jsx" -> "todo"
+const allComponents: Component[] = fg.sync("src/components/**/index.{tsx,jsx}").map((file) => ({
+  name: path.basename(path.dirname(file)),
+  entry: path.resolve(file),
+  dir: path.dirname(path.resolve(file)),
+}));
+
+if (!allComponents.length) {
   console.log("No components found in src/components/");
   process.exit(0);
 }
 
-fs.rmSync(outDir, { recursive: true, force: true });
+const selected = args.component ?? [];
+const unknown = selected.filter((name) => !allComponents.some((c) => c.name === name));
+if (unknown.length) {
+  console.error(`Unknown component(s): ${unknown.join(", ")}. Available: ${allComponents.map((c) => c.name).join(", ")}`);
+  process.exit(1);
+}
+const components = selected.length ? allComponents.filter((c) => selected.includes(c.name)) : allComponents;
 
-for (const file of entries) {
-  // Extract component name from path like "src/components/todo/index.jsx" -> "todo"
-  const componentName = path.basename(path.dirname(file));
-  const entryAbs = path.resolve(file);
-  const entryDir = path.dirname(entryAbs);
-  
-  // Find CSS files in the component directory
-  const cssFiles = fg.sync("**/*.css", {
-    cwd: entryDir,
-    absolute: true,
-  });
-  
-  // Global CSS
+// The previous build's manifest: a partial build keeps the other widgets' entries, and every
+// rebuild removes the files its component's previous entry pointed at
+const previousBuild = readManifest();
+const previousManifest = new Map((previousBuild?.widgets ?? []).map((entry) => [entry.name, entry]));
+const manifest = new Map<string, ManifestEntry>(selected.length ? previousManifest : []);
+
+// Widgets built against other vendor settings would import modules the import map lacks, or
+// carry copies of shared ones
+if (selected.length && vendorKey(previousBuild?.vendor ?? null) !== vendorKey(sharedVendor ? config.build.vendorPackages : null)) {
+  console.error("The vendor settings differ from the last full build's. Run a full build (without --component).");
+  process.exit(1);
+}
+
+// Shared vendor modules, built before the widgets when build.vendor is "shared"
+let vendor: VendorManifest | null = null;
+
+// Files of replaced builds, deleted once a manifest without them has been written
+const staleFiles = new Set<string>();
+
+/**
+ * Reads the manifest of the last build, if there is one of the current format.
+ */
+function readManifest(): Manifest | null {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as Manifest;
+    // Entries of another format are rebuilt rather than carried over
+    return manifest.version === MANIFEST_VERSION ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identifies vendor settings for comparison: the sorted shared specifiers, or "bundled".
+ */
+function vendorKey(vendor: VendorManifest | string[] | null): string {
+  const specifiers = Array.isArray(vendor) ? vendor : vendor ? Object.keys(vendor.imports) : null;
+  return specifiers ? [...specifiers].sort().join(",") : "bundled";
+}
+
+/**
+ * Writes the HTML of every widget and the manifest, then deletes the stale files no widget uses.
+ */
+function writeManifest() {
+  const widgets = [...manifest.values()].sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of widgets) {
+    fs.writeFileSync(path.join(outDir, entry.html), widgetHtml(entry), { encoding: "utf8" });
+  }
+  const content: Manifest = { version: MANIFEST_VERSION, builtAt: new Date().toISOString(), widgets, vendor };
+  fs.writeFileSync(manifestPath, JSON.stringify(content, null, 2), { encoding: "utf8" });
+  console.log(`  ✓ ${displayPath(manifestPath)}`);
+
+  const inUse = new Set(widgets.flatMap((entry) => entry.files.map((file) => file.path)));
+  for (const file of staleFiles) {
+    if (!inUse.has(file)) fs.rmSync(path.join(outDir, file), { force: true });
+  }
+  staleFiles.clear();
+}
+
+/**
+ * Creates a virtual entry that imports the global and component CSS, then the component.
+ */
+function virtualEntry(component: Component): string {
+  // Find CSS files in the component directory, plus the global CSS
+  const cssFiles = fg.sync("**/*.css", { cwd: component.dir, absolute: true });
   const globalCss = path.resolve("src/index.css");
   const cssToInclude = [globalCss, ...cssFiles].filter((p) => fs.existsSync(p));
 
-  // Create a virtual entry that imports CSS
   const cssImports = cssToInclude
     .map((css) => {
       // Convert absolute path to relative path from project root, ensuring it starts with ./
@@ -46,16 +215,162 @@ for (const file of entries) {
       return `import ${JSON.stringify(normalizedPath)};`;
     })
     .join("\n");
-  
-  const virtualEntry = `
+
+  return `
 ${cssImports}
-export * from ${JSON.stringify(entryAbs)};
-import * as __entry from ${JSON.stringify(entryAbs)};
+export * from ${JSON.stringify(component.entry)};
+import * as __entry from ${JSON.stringify(component.entry)};
 export default (__entry.default ?? __entry.App ?? __entry);
-import ${JSON.stringify(entryAbs)};
+import ${JSON.stringify(component.entry)};
 `;
+}
+
+/**
+ * Describes an emitted file: size, hash and, for JS and CSS, compressed sizes.
+ */
+function describeFile(file: string, imports: string[] = []): ManifestFile {
+  const contents = fs.readFileSync(path.join(outDir, file));
+  const kind = file.endsWith(".map") ? "sourcemap" : file.endsWith(".js") ? "js" : file.endsWith(".css") ? "css" : "asset";
+  const code = kind === "js" || kind === "css";
+
+  return {
+    path: file,
+    kind,
+    bytes: contents.length,
+    sha256: createHash("sha256").update(contents).digest("hex"),
+    ...(code && {
+      gzipBytes: zlib.gzipSync(contents, { level: 9 }).length,
+      brotliBytes: zlib.brotliCompressSync(contents).length,
+    }),
+    ...(imports.length > 0 && { imports }),
+  };
+}
+
+/**
+ * Lists every file an emitted bundle wrote, sourcemaps included.
+ */
+function bundleFiles(outputs: (Rollup.OutputChunk | Rollup.OutputAsset)[]): ManifestFile[] {
+  const imports = new Map(outputs.flatMap((file) => (file.type === "chunk" ? [[file.fileName, file.imports]] : [])));
+  const files = new Set(outputs.flatMap((file) =>
+    file.type === "chunk" && file.sourcemapFileName ? [file.fileName, file.sourcemapFileName] : [file.fileName]
+  ));
+  return [...files].map((file) => describeFile(file, imports.get(file)));
+}
+
+/**
+ * The import map script for the widget HTML, or "" without shared vendor modules.
+ */
+function importMapScript(): string {
+  if (!vendor) return "";
+  const imports = Object.fromEntries(Object.entries(vendor.imports).map(([specifier, file]) => [specifier, `${baseUrl}/${file}`]));
+  // Escaped like the server's copy (server/src/widgets.ts), so a "</script>" in a URL cannot end the element
+  return `<script type="importmap">${JSON.stringify({ imports }).replace(/</g, "\\u003c")}</script>`;
+}
+
+/**
+ * The HTML page of a widget, loading its JS and CSS from the base URL.
+ */
+function widgetHtml(entry: ManifestEntry): string {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  ${importMapScript()}
+  <script type="module" src="${baseUrl}/${entry.js}"></script>
+  ${entry.css ? `<link rel="stylesheet" href="${baseUrl}/${entry.css}">` : ""}
+</head>
+<body>
+  <div id="${entry.name}-root"></div>
+</body>
+</html>`;
+}
+
+/**
+ * Source of the vendor entry module for one specifier. Export names are read from the package
+ * itself, since `export *` would drop the named exports of CommonJS packages such as React.
+ */
+async function vendorModule(specifier: string): Promise<string> {
+  const namespace = await import(specifier);
+  const names = Object.keys(namespace).filter((name) => name !== "default" && /^[A-Za-z_$][\w$]*$/.test(name));
+  return [
+    names.length ? `export { ${names.join(", ")} } from ${JSON.stringify(specifier)};` : "",
+    "default" in namespace ? `export { default } from ${JSON.stringify(specifier)};` : "",
+  ].join("\n");
+}
+
+/**
+ * Builds the shared vendor modules: one entry per specifier in build.vendorPackages, with code
+ * they have in common (React itself) split into shared chunks so every widget gets one instance.
+ */
+async function buildVendor(): Promise<VendorManifest> {
+  const specifiers = config.build.vendorPackages;
+  const sources = new Map<string, string>(await Promise.all(specifiers.map(async (specifier) =>
+    [`\0vendor:${specifier}`, await vendorModule(specifier)] as const
+  )));
+
+  let outputs: (Rollup.OutputChunk | Rollup.OutputAsset)[] = [];
+  await build({
+    configFile: false,
+    logLevel: "warn",
+    plugins: [
+      {
+        name: "vendor-entries",
+        resolveId(id) {
+          if (sources.has(id)) return id;
+        },
+        load(id) {
+          return sources.get(id);
+        },
+      },
+      {
+        name: "vendor-output",
+        writeBundle(_options, bundle) {
+          outputs = Object.values(bundle);
+        },
+      },
+    ],
+    build: {
+      target: "es2022",
+      outDir,
+      emptyOutDir: false,
+      minify: "esbuild",
+      sourcemap: config.build.sourcemap,
+      reportCompressedSize: false,
+      chunkSizeWarningLimit: Number.MAX_SAFE_INTEGER,
+      rollupOptions: {
+        // Entry names such as "react-dom/client" become files like assets/vendor/react-dom_client-[hash].js
+        input: Object.fromEntries(specifiers.map((specifier) => [specifier.replace(/\//g, "_"), `\0vendor:${specifier}`])),
+        preserveEntrySignatures: "strict",
+        // "use client" directives mean nothing outside server components
+        onwarn(warning, warn) {
+          if (warning.code !== "MODULE_LEVEL_DIRECTIVE" && warning.code !== "SOURCEMAP_ERROR") warn(warning);
+        },
+        output: {
+          format: "es",
+          entryFileNames: "assets/vendor/[name]-[hash].js",
+          chunkFileNames: "assets/vendor/shared-[hash].js",
+        },
+      },
+    },
+  });
+
+  const imports = Object.fromEntries(outputs.flatMap((file) =>
+    file.type === "chunk" && file.isEntry && file.facadeModuleId
+      ? [[file.facadeModuleId.replace("\0vendor:", ""), file.fileName]]
+      : []
+  ).sort(([a], [b]) => a.localeCompare(b)));
+  return { imports, files: bundleFiles(outputs), builtAt: new Date().toISOString() };
+}
 
-  const createConfig = (): InlineConfig => ({
+/**
+ * Vite config of one component. `onWrite` receives the emitted files after every (re)build.
+ */
+function createConfig(component: Component, onWrite: (files: Rollup.OutputBundle) => Promise<void>): InlineConfig {
+  const entrySource = virtualEntry(component);
+
+  return {
+    configFile: false,   // vite.config.ts configures the dev server only
+    logLevel: "warn",    // Parallel builds would interleave Vite's per-file output; the size report replaces it
     plugins: [
       {
         name: "virtual-entry",
@@ -63,7 +378,13 @@ import ${JSON.stringify(entryAbs)};
           if (id === "\0virtual-entry") return id;
         },
         load(id) {
-          if (id === "\0virtual-entry") return virtualEntry;
+          if (id === "\0virtual-entry") return entrySource;
+        },
+      },
+      {
+        name: "widget-output",
+        async writeBundle(_options, bundle) {
+          await onWrite(bundle);
         },
       },
       tailwindcss(),
@@ -79,45 +400,294 @@ import ${JSON.stringify(entryAbs)};
       outDir,
       emptyOutDir: false,
       minify: "esbuild",
+      sourcemap: config.build.sourcemap,
       cssCodeSplit: false,
+      reportCompressedSize: false,
+      chunkSizeWarningLimit: Number.MAX_SAFE_INTEGER,   // Size budgets replace Vite's warning
+      watch: args.watch ? { clearScreen: false } : null,
       rollupOptions: {
         input: "\0virtual-entry",
+        // Shared vendor modules stay bare imports, resolved by the import map in the widget HTML
+        external: sharedVendor ? config.build.vendorPackages : undefined,
+        onwarn(warning, warn) {
+          // `import React from "react"` kept only for JSX is fine once React is external
+          if (!(sharedVendor && warning.code === "UNUSED_EXTERNAL_IMPORT")) warn(warning);
+        },
         output: {
           format: "es",
-          entryFileNames: `${componentName}.js`,
+          entryFileNames: `assets/${component.name}-[hash].js`,
           inlineDynamicImports: true,
           assetFileNames: (info) =>
             (info.name || "").endsWith(".css")
-              ? `${componentName}.css`
-              : `[name][extname]`,
+              ? `assets/${component.name}-[hash].css`
+              : `assets/[name]-[hash][extname]`,
         },
       },
     },
+  };
+}
+
+/**
+ * Records the manifest entry of a freshly built component and marks the files of its previous
+ * build as stale. Nothing is written until `writeManifest()`.
+ */
+async function recordBuild(component: Component, bundle: Rollup.OutputBundle): Promise<void> {
+  const outputs = Object.values(bundle);
+  const entry = outputs.find((file) => file.type === "chunk" && file.isEntry);
+  if (!entry) throw new Error(`Vite emitted no entry chunk for ${component.name}`);
+  const js = entry.fileName;
+  const css = outputs.find((file) => file.type === "asset" && file.fileName.endsWith(".css"))?.fileName ?? null;
+
+  // Load widget metadata declared next to the component (optional); the query skips the
+  // module cache so watch mode picks up edits
+  const metaPath = path.join(component.dir, "meta.ts");
+  const meta: WidgetMeta | null = fs.existsSync(metaPath)
+    ? (await import(`${pathToFileURL(metaPath).href}?t=${Date.now()}`)).default
+    : null;
+
+  // The previous build's files of this component go once the manifest stops pointing at them
+  const files = bundleFiles(outputs);
+  const previous = manifest.get(component.name) ?? previousManifest.get(component.name);
+  for (const file of previous?.files ?? []) staleFiles.add(file.path);
+
+  manifest.set(component.name, {
+    name: component.name,
+    js,
+    css,
+    html: `${component.name}.html`,
+    files,
+    builtAt: new Date().toISOString(),
+    meta,
   });
+  console.log(`  ✓ ${component.name}: ${js}${css ? `, ${css}` : ""}`);
+}
 
-  console.log(`Building ${componentName}...`);
-  await build(createConfig());
-  
-  // Generate HTML file for the component
-  const htmlPath = path.join(outDir, `${componentName}.html`);
-  const defaultBaseUrl = process.env.BASE_URL?.trim() || "http://localhost:8000";
-  const baseUrl = defaultBaseUrl.replace(/\/+$/, "");
-  
-  const html = `<!doctype html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <script type="module" src="${baseUrl}/${componentName}.js"></script>
-  <link rel="stylesheet" href="${baseUrl}/${componentName}.css">
-</head>
-<body>
-  <div id="${componentName}-root"></div>
-</body>
-</html>`;
-  
-  fs.writeFileSync(htmlPath, html, { encoding: "utf8" });
-  console.log(`  ✓ ${htmlPath}`);
+/**
+ * Deletes the files a failed build wrote that the manifest on disk does not use, leaving outDir
+ * as the last good build left it.
+ */
+function discardBuild() {
+  const keep = new Set(
+    [...previousManifest.values(), ...(previousBuild?.vendor ? [previousBuild.vendor] : [])]
+      .flatMap((build) => build.files.map((file) => file.path))
+  );
+  const written = [...manifest.values(), ...(vendor ? [vendor] : [])].flatMap((build) => build.files);
+  for (const file of written) {
+    if (!keep.has(file.path)) fs.rmSync(path.join(outDir, file.path), { force: true });
+  }
+}
+
+/**
+ * Deletes files in outDir that no widget in the manifest uses, e.g. components that were removed.
+ */
+function pruneOutDir() {
+  const keep = new Set(["manifest.json", ...(vendor?.files ?? []).map((file) => file.path)]);
+  for (const entry of manifest.values()) {
+    keep.add(entry.html);
+    for (const file of entry.files) keep.add(file.path);
+  }
+  for (const file of fg.sync("**/*", { cwd: outDir, dot: true })) {
+    if (!keep.has(file)) fs.rmSync(path.join(outDir, file), { force: true });
+  }
+  // Directories left empty, such as assets/vendor/ after switching back to bundled
+  for (const dir of fg.sync("**", { cwd: outDir, onlyDirectories: true }).sort().reverse()) {
+    if (fs.readdirSync(path.join(outDir, dir)).length === 0) fs.rmdirSync(path.join(outDir, dir));
+  }
+}
+
+/**
+ * Sums a widget's JS and CSS sizes from its manifest entry and checks them against its size budget.
+ */
+function measure(entry: ManifestEntry): WidgetSize {
+  const { js, css, gzip, brotli } = sumSizes(entry.files);
+
+  const budget: SizeBudget = config.build.budgets[entry.name] ?? config.build.budgets["*"] ?? {};
+  const checks: [string, number, number | undefined][] = [
+    ["JS", js, budget.maxJsBytes],
+    ["CSS", css, budget.maxCssBytes],
+    ["gzip", gzip, budget.maxGzipBytes],
+  ];
+  const overBudget = checks
+    .filter(([, size, max]) => max !== undefined && size > max)
+    .map(([label, size, max]) => `${label} ${formatBytes(size)} > ${formatBytes(max!)}`);
+
+  return { name: entry.name, js, css, gzip, brotli, overBudget };
 }
 
-console.log(`\n✅ Build complete! Output in ${outDir}/`);
+/**
+ * Total JS, CSS and compressed sizes of a set of files.
+ */
+function sumSizes(files: ManifestFile[]) {
+  const sum = (kind: ManifestFile["kind"], size: "bytes" | "gzipBytes" | "brotliBytes") =>
+    files.filter((file) => file.kind === kind).reduce((total, file) => total + (file[size] ?? 0), 0);
+  return {
+    js: sum("js", "bytes"),
+    css: sum("css", "bytes"),
+    gzip: sum("js", "gzipBytes") + sum("css", "gzipBytes"),
+    brotli: sum("js", "brotliBytes") + sum("css", "brotliBytes"),
+  };
+}
+
+/**
+ * The vendor files a widget loads: the modules its JS imports, and the chunks those import.
+ */
+function vendorFilesOf(entry: ManifestEntry, vendor: VendorManifest): ManifestFile[] {
+  const byPath = new Map(vendor.files.map((file) => [file.path, file]));
+  const pending = entry.files.flatMap((file) => file.imports ?? []).map((specifier) => vendor.imports[specifier] ?? specifier);
+  const reached = new Set<string>();
+  for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+    if (reached.has(file) || !byPath.has(file)) continue;
+    reached.add(file);
+    pending.push(...(byPath.get(file)!.imports ?? []));
+  }
+  return [...reached].map((file) => byPath.get(file)!);
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1000).toFixed(1)} kB`;
+}
+
+/**
+ * Prints the size of each widget and whether it fits its budget.
+ *
+ * @returns true if every widget is within budget
+ */
+function reportSizes(names: string[]): boolean {
+  const sizes = names.flatMap((name) => {
+    const entry = manifest.get(name);
+    return entry ? [measure(entry)] : [];
+  });
+
+  const rows = [
+    ["Widget", "JS", "CSS", "gzip", "brotli", ""],
+    ...sizes.map((size) => [
+      size.name,
+      formatBytes(size.js),
+      formatBytes(size.css),
+      formatBytes(size.gzip),
+      formatBytes(size.brotli),
+      size.overBudget.length ? `✗ over budget: ${size.overBudget.join(", ")}` : "",
+    ]),
+  ];
+  if (vendor) {
+    const size = sumSizes(vendor.files);
+    rows.push(["(vendor)", formatBytes(size.js), formatBytes(size.css), formatBytes(size.gzip), formatBytes(size.brotli), ""]);
+  }
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  console.log("");
+  for (const row of rows) {
+    console.log(`  ${row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()}`);
+  }
+
+  // What the shared modules save: every widget downloading its own copy of the vendor code it
+  // uses, against all widgets plus one copy of the vendor modules
+  if (vendor) {
+    const entries = names.flatMap((name) => manifest.get(name) ?? []);
+    const shared = sumSizes([...entries.flatMap((entry) => entry.files), ...vendor.files]);
+    const separate = sumSizes(entries.flatMap((entry) => [...entry.files, ...vendorFilesOf(entry, vendor!)]));
+    console.log(
+      `\n  Shared vendor: ${formatBytes(shared.js + shared.css)} (${formatBytes(shared.gzip)} gzip) in total, ` +
+        `against ${formatBytes(separate.js + separate.css)} (${formatBytes(separate.gzip)} gzip) with a copy per widget`
+    );
+  }
+
+  return sizes.every((size) => size.overBudget.length === 0);
+}
 
+/**
+ * Runs `task` for every item, at most `limit` at a time.
+ */
+async function forEachLimit<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+fs.mkdirSync(outDir, { recursive: true });
+
+// A partial build keeps the vendor modules the other widgets were built against
+if (sharedVendor && selected.length) {
+  vendor = previousBuild?.vendor ?? null;
+} else if (sharedVendor) {
+  console.log(`Building vendor modules: ${config.build.vendorPackages.join(", ")}...`);
+  try {
+    vendor = await buildVendor();
+  } catch (error) {
+    console.error("\n❌ Build failed: vendor modules:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+console.log(`Building ${components.map((c) => c.name).join(", ")}...`);
+
+if (!args.watch) {
+  // One build per component, in parallel up to the number of CPUs
+  const failed: string[] = [];
+  await forEachLimit(components, os.availableParallelism(), async (component) => {
+    try {
+      await build(createConfig(component, (bundle) => recordBuild(component, bundle)));
+    } catch (error) {
+      failed.push(component.name);
+      console.error(`\n✗ ${component.name} failed:`, error instanceof Error ? error.message : error);
+    }
+  });
+
+  // Keep the previous manifest and its files (and the server on the previous build) if anything
+  // failed or is over budget, and delete what this build wrote
+  if (failed.length) {
+    discardBuild();
+    console.error(`\n❌ Build failed: ${failed.join(", ")}`);
+    process.exit(1);
+  }
+
+  const withinBudget = reportSizes(components.map((c) => c.name));
+  if (!withinBudget) {
+    discardBuild();
+    console.error("\n❌ Build failed: widgets over their size budget");
+    process.exit(1);
+  }
+
+  console.log("");
+  writeManifest();
+  if (!selected.length) pruneOutDir();
+
+  console.log(`\n✅ Build complete! Output in ${displayPath(outDir)}/`);
+} else {
+  // One Rollup watcher per component: a change only rebuilds the components that import the file.
+  // The manifest is rewritten after each rebuild within budget, which makes a running server reload.
+  let initialBuilds = components.length;
+
+  const watchers = components.map((component) => {
+    const onWrite = async (bundle: Rollup.OutputBundle) => {
+      const previous = manifest.get(component.name) ?? previousManifest.get(component.name);
+      await recordBuild(component, bundle);
+      const initialBuildsDone = initialBuilds > 0 && --initialBuilds === 0;
+
+      if (reportSizes([component.name])) {
+        writeManifest();
+        if (initialBuildsDone && !selected.length) pruneOutDir();
+        return;
+      }
+      // Keep the last build within budget; the rejected files are stale instead
+      for (const file of manifest.get(component.name)!.files) staleFiles.add(file.path);
+      if (previous) manifest.set(component.name, previous);
+      else manifest.delete(component.name);
+      console.error(`✗ ${component.name} is over its size budget; its last build is still served`);
+    };
+    return build(createConfig(component, onWrite)) as Promise<Rollup.RollupWatcher>;
+  });
+
+  for (const [index, watcher] of (await Promise.all(watchers)).entries()) {
+    const { name } = components[index];
+    watcher.on("event", (event) => {
+      if (event.code === "BUNDLE_START" && initialBuilds === 0) console.log(`\nRebuilding ${name}...`);
+      if (event.code === "ERROR") console.error(`✗ ${name} failed; its last build is still served`);
+    });
+  }
+
+  console.log("\n👀 Watching for changes (Ctrl+C to stop)");
+}
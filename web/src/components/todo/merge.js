@@ -0,0 +1,220 @@
+/* ---------------------------------- Merge ---------------------------------- */
+/* Three-way merge between the widget's local edits and a newer server copy.
+   `base` is the server copy the local edits started from, `local` is what the widget shows,
+   `remote` is the new server copy (from a model tool call, a refresh, or a rejected save).
+
+   Changes made on only one side are combined. When both sides changed the same thing
+   differently, the local value is kept in the merged result and a conflict is reported,
+   so the user can choose between their edit and the server's instead of one silently winning. */
+
+const TODO_FIELDS = ["title", "note", "dueDate", "isComplete"];
+
+/**
+ * @typedef {Object} Conflict
+ * @property {string} listId
+ * @property {string | null} todoId - null for list-level conflicts
+ * @property {string} field - A todo field, "title" of a list, or "deleted"
+ * @property {*} mine - Local value (for "deleted": the local todo/list, or null if deleted locally)
+ * @property {*} theirs - Server value (for "deleted": the server todo/list, or null if deleted there)
+ * @property {number} [index] - For "deleted" with a server copy: its position on the server
+ */
+
+function same(a, b) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function byId(items) {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+/** Picks the merged value of one field; pushes a conflict when both sides changed it. */
+function mergeField(baseValue, localValue, remoteValue, onConflict) {
+  if (same(localValue, remoteValue)) return localValue;
+  if (same(localValue, baseValue)) return remoteValue;
+  if (same(remoteValue, baseValue)) return localValue;
+  onConflict(localValue, remoteValue);
+  return localValue;
+}
+
+/** True if the relative order of the shared IDs differs between two ID lists. */
+function orderChanged(ids, baseIds) {
+  const shared = new Set(ids.filter((id) => baseIds.includes(id)));
+  const a = ids.filter((id) => shared.has(id));
+  const b = baseIds.filter((id) => shared.has(id));
+  return a.some((id, i) => id !== b[i]);
+}
+
+/** Adds the IDs of `ids` missing from `order`, each right after the ID before it in `ids`. */
+function weave(order, ids) {
+  const result = order.slice();
+  ids.forEach((id, i) => {
+    if (result.includes(id)) return;
+    result.splice(i === 0 ? 0 : result.indexOf(ids[i - 1]) + 1, 0, id);
+  });
+  return result;
+}
+
+/**
+ * Merges the todos of one list.
+ *
+ * @returns {{ todos: Array, conflicts: Conflict[] }}
+ */
+function mergeTodos(listId, baseTodos, localTodos, remoteTodos) {
+  const conflicts = [];
+  const base = byId(baseTodos);
+  const local = byId(localTodos);
+  const remote = byId(remoteTodos);
+  const merged = new Map();
+
+  const ids = new Set([...localTodos, ...remoteTodos, ...baseTodos].map((t) => t.id));
+  for (const id of ids) {
+    const b = base.get(id);
+    const l = local.get(id);
+    const r = remote.get(id);
+
+    if (l && r) {
+      const todo = { ...r, ...l };
+      for (const field of TODO_FIELDS) {
+        todo[field] = mergeField(b?.[field], l[field], r[field], (mine, theirs) =>
+          conflicts.push({ listId, todoId: id, field, mine, theirs })
+        );
+      }
+      merged.set(id, todo);
+    } else if (l && !b) {
+      merged.set(id, l); // Added locally
+    } else if (r && !b) {
+      merged.set(id, r); // Added on the server
+    } else if (l && b) {
+      // Deleted on the server: drop unless edited locally
+      if (!same(l, b)) {
+        merged.set(id, l);
+        conflicts.push({ listId, todoId: id, field: "deleted", mine: l, theirs: null });
+      }
+    } else if (r && b) {
+      // Deleted locally: stay deleted unless edited on the server
+      if (!same(r, b)) {
+        const index = remoteTodos.indexOf(r);
+        conflicts.push({ listId, todoId: id, field: "deleted", mine: null, theirs: r, index });
+      }
+    }
+  }
+
+  // Keep the local order if the user reordered, otherwise follow the server
+  const localIds = localTodos.map((t) => t.id);
+  const remoteIds = remoteTodos.map((t) => t.id);
+  const baseIds = baseTodos.map((t) => t.id);
+  const primary = orderChanged(localIds, baseIds) ? localIds : remoteIds;
+  const newLocal = localIds.filter((id) => !base.has(id) && !remote.has(id));
+  const order = weave(weave([...new Set([...newLocal, ...primary])], localIds), remoteIds);
+
+  return {
+    todos: order.filter((id) => merged.has(id)).map((id) => merged.get(id)),
+    conflicts,
+  };
+}
+
+/**
+ * Merges a single list present on both sides.
+ *
+ * @returns {{ list: Object, conflicts: Conflict[] }}
+ */
+function mergeList(base, local, remote) {
+  const conflicts = [];
+  const title = mergeField(base?.title, local.title, remote.title, (mine, theirs) =>
+    conflicts.push({ listId: local.id, todoId: null, field: "title", mine, theirs })
+  );
+  const merged = mergeTodos(local.id, base?.todos ?? [], local.todos, remote.todos);
+
+  return {
+    list: { ...local, title, todos: merged.todos, version: remote.version, updatedAt: remote.updatedAt },
+    conflicts: [...conflicts, ...merged.conflicts],
+  };
+}
+
+/**
+ * Merges server lists into the local lists.
+ *
+ * @param {Array} baseLists - Server lists the local edits started from
+ * @param {Array} localLists - Lists the widget currently shows
+ * @param {Array} remoteLists - New server lists
+ * @param {{ partial?: boolean }} [options] - `partial`: remoteLists is a subset, so lists missing
+ *   from it were not deleted on the server
+ * @returns {{ lists: Array, conflicts: Conflict[] }}
+ */
+export function mergeLists(baseLists, localLists, remoteLists, { partial = false } = {}) {
+  const conflicts = [];
+  const base = byId(baseLists);
+  const remote = byId(remoteLists);
+  const lists = [];
+
+  for (const local of localLists) {
+    const r = remote.get(local.id);
+    const b = base.get(local.id);
+
+    if (r) {
+      const merged = mergeList(b, local, r);
+      lists.push(merged.list);
+      conflicts.push(...merged.conflicts);
+    } else if (!b || partial) {
+      lists.push(local); // Added locally, or not part of this update
+    } else if (!same({ title: local.title, todos: local.todos }, { title: b.title, todos: b.todos })) {
+      // Deleted on the server but edited locally
+      lists.push(local);
+      conflicts.push({ listId: local.id, todoId: null, field: "deleted", mine: local, theirs: null });
+    }
+  }
+
+  // Lists added on the server, or deleted locally but edited on the server
+  const localIds = new Set(localLists.map((l) => l.id));
+  remoteLists.forEach((r, index) => {
+    if (localIds.has(r.id)) return;
+    const b = base.get(r.id);
+    if (!b) {
+      lists.splice(Math.min(index, lists.length), 0, r);
+    } else if (b.version !== r.version) {
+      conflicts.push({ listId: r.id, todoId: null, field: "deleted", mine: null, theirs: r, index });
+    }
+  });
+
+  return { lists, conflicts };
+}
+
+/** Returns items without the one with `id`, and with `item` (if any) at `index`. */
+function replaceAt(items, id, item, index = items.length) {
+  const rest = items.filter((i) => i.id !== id);
+  if (item) rest.splice(Math.min(index, rest.length), 0, item);
+  return rest;
+}
+
+/**
+ * Applies the server side of each conflict to the lists ("use theirs").
+ * The merged lists already hold the local side, so "keep mine" needs no changes.
+ * A restored todo or list goes back to its position on the server.
+ *
+ * @param {Array} lists
+ * @param {Conflict[]} conflicts
+ * @returns {Array}
+ */
+export function applyTheirs(lists, conflicts) {
+  let next = lists.map((l) => ({ ...l, todos: l.todos.slice() }));
+
+  for (const c of conflicts) {
+    if (c.todoId == null && c.field === "deleted") {
+      next = replaceAt(next, c.listId, c.theirs, c.index);
+      continue;
+    }
+
+    const list = next.find((l) => l.id === c.listId);
+    if (!list) continue;
+
+    if (c.todoId == null) {
+      list.title = c.theirs;
+    } else if (c.field === "deleted") {
+      list.todos = replaceAt(list.todos, c.todoId, c.theirs, c.index);
+    } else {
+      list.todos = list.todos.map((t) => (t.id === c.todoId ? { ...t, [c.field]: c.theirs } : t));
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,260 @@
+// MERGE.TEST.JS
+/**
+ * Tests for the three-way merge of todo lists and for applying the server side of conflicts.
+ */
+
+// ------------------------------------------------------------------------------------------------
+// IMPORTS
+// ------------------------------------------------------------------------------------------------
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { applyTheirs, mergeLists } from "./merge.js";
+
+// ------------------------------------------------------------------------------------------------
+// HELPER FUNCTIONS
+// ------------------------------------------------------------------------------------------------
+function todo(id, fields = {}) {
+  return { id, title: `Todo ${id}`, note: "", dueDate: null, isComplete: false, ...fields };
+}
+
+function list(id, todos, fields = {}) {
+  return { id, title: `List ${id}`, todos, version: 1, updatedAt: "2026-01-01T00:00:00.000Z", ...fields };
+}
+
+function ids(items) {
+  return items.map((item) => item.id);
+}
+
+// ------------------------------------------------------------------------------------------------
+// TESTS
+// ------------------------------------------------------------------------------------------------
+describe("mergeLists", () => {
+  const base = [list("a", [todo("1"), todo("2"), todo("3")])];
+
+  it("combines edits to different fields without conflicts", () => {
+    const local = [list("a", [todo("1", { title: "Mine" }), todo("2"), todo("3")])];
+    const remote = [list("a", [todo("1", { isComplete: true }), todo("2"), todo("3")], { version: 2 })];
+
+    const { lists, conflicts } = mergeLists(base, local, remote);
+
+    assert.deepEqual(conflicts, []);
+    assert.equal(lists[0].todos[0].title, "Mine");
+    assert.equal(lists[0].todos[0].isComplete, true);
+    assert.equal(lists[0].version, 2);
+  });
+
+  it("keeps the local value and reports a conflict when both sides changed a field", () => {
+    const local = [list("a", [todo("1", { title: "Mine" }), todo("2"), todo("3")])];
+    const remote = [list("a", [todo("1", { title: "Theirs" }), todo("2"), todo("3")])];
+
+    const { lists, conflicts } = mergeLists(base, local, remote);
+
+    assert.equal(lists[0].todos[0].title, "Mine");
+    assert.deepEqual(conflicts, [{ listId: "a", todoId: "1", field: "title", mine: "Mine", theirs: "Theirs" }]);
+  });
+
+  describe("ordering", () => {
+    it("follows the server order when only the server reordered", () => {
+      const remote = [list("a", [todo("3"), todo("1"), todo("2")])];
+
+      const { lists } = mergeLists(base, base, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["3", "1", "2"]);
+    });
+
+    it("keeps the local order when the user reordered", () => {
+      const local = [list("a", [todo("2"), todo("1"), todo("3")])];
+      const remote = [list("a", [todo("3"), todo("1"), todo("2")])];
+
+      const { lists } = mergeLists(base, local, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["2", "1", "3"]);
+    });
+
+    it("puts local additions first and keeps server additions at their server position", () => {
+      const local = [list("a", [todo("new"), todo("1"), todo("2"), todo("3")])];
+      const remote = [list("a", [todo("1"), todo("srv"), todo("2"), todo("3")])];
+
+      const { lists } = mergeLists(base, local, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["new", "1", "srv", "2", "3"]);
+    });
+
+    it("keeps a server addition after its server neighbour when the user reordered", () => {
+      const local = [list("a", [todo("2"), todo("1"), todo("3")])];
+      const remote = [list("a", [todo("1"), todo("srv"), todo("2"), todo("3")])];
+
+      const { lists } = mergeLists(base, local, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["2", "1", "srv", "3"]);
+    });
+
+    it("inserts a list added on the server at its server position", () => {
+      const local = [list("a", []), list("c", [])];
+      const remote = [list("a", []), list("b", []), list("c", [])];
+
+      const { lists } = mergeLists([list("a", []), list("c", [])], local, remote);
+
+      assert.deepEqual(ids(lists), ["a", "b", "c"]);
+    });
+  });
+
+  describe("delete vs edit", () => {
+    it("drops a todo deleted on the server that was not edited locally", () => {
+      const remote = [list("a", [todo("1"), todo("3")])];
+
+      const { lists, conflicts } = mergeLists(base, base, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["1", "3"]);
+      assert.deepEqual(conflicts, []);
+    });
+
+    it("keeps a todo deleted on the server but edited locally, and reports it", () => {
+      const edited = todo("2", { note: "Mine" });
+      const local = [list("a", [todo("1"), edited, todo("3")])];
+      const remote = [list("a", [todo("1"), todo("3")])];
+
+      const { lists, conflicts } = mergeLists(base, local, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["1", "2", "3"]);
+      assert.deepEqual(conflicts, [{ listId: "a", todoId: "2", field: "deleted", mine: edited, theirs: null }]);
+    });
+
+    it("keeps a todo deleted locally deleted, and reports it when the server edited it", () => {
+      const local = [list("a", [todo("1"), todo("3")])];
+      const edited = todo("2", { isComplete: true });
+      const remote = [list("a", [todo("1"), edited, todo("3")])];
+
+      const { lists, conflicts } = mergeLists(base, local, remote);
+
+      assert.deepEqual(ids(lists[0].todos), ["1", "3"]);
+      assert.deepEqual(conflicts, [
+        { listId: "a", todoId: "2", field: "deleted", mine: null, theirs: edited, index: 1 },
+      ]);
+    });
+
+    it("keeps a todo deleted locally deleted when the server did not edit it", () => {
+      const local = [list("a", [todo("1"), todo("3")])];
+
+      const { lists, conflicts } = mergeLists(base, local, base);
+
+      assert.deepEqual(ids(lists[0].todos), ["1", "3"]);
+      assert.deepEqual(conflicts, []);
+    });
+  });
+
+  describe("list deletion", () => {
+    const lists = [list("a", [todo("1")]), list("b", [todo("2")])];
+
+    it("drops a list deleted on the server that was not edited locally", () => {
+      const { lists: merged, conflicts } = mergeLists(lists, lists, [lists[0]]);
+
+      assert.deepEqual(ids(merged), ["a"]);
+      assert.deepEqual(conflicts, []);
+    });
+
+    it("keeps a list deleted on the server but edited locally, and reports it", () => {
+      const edited = list("b", [todo("2")], { title: "Mine" });
+
+      const { lists: merged, conflicts } = mergeLists(lists, [lists[0], edited], [lists[0]]);
+
+      assert.deepEqual(ids(merged), ["a", "b"]);
+      assert.deepEqual(conflicts, [{ listId: "b", todoId: null, field: "deleted", mine: edited, theirs: null }]);
+    });
+
+    it("reports a list deleted locally but changed on the server", () => {
+      const changed = list("a", [todo("1"), todo("new")], { version: 2 });
+
+      const { lists: merged, conflicts } = mergeLists(lists, [lists[1]], [changed, lists[1]]);
+
+      assert.deepEqual(ids(merged), ["b"]);
+      assert.deepEqual(conflicts, [
+        { listId: "a", todoId: null, field: "deleted", mine: null, theirs: changed, index: 0 },
+      ]);
+    });
+  });
+
+  describe("partial", () => {
+    const lists = [list("a", [todo("1")]), list("b", [todo("2")])];
+
+    it("keeps lists missing from a partial update", () => {
+      const remote = [list("a", [todo("1", { title: "Theirs" })], { version: 2 })];
+
+      const { lists: merged, conflicts } = mergeLists(lists, lists, remote, { partial: true });
+
+      assert.deepEqual(ids(merged), ["a", "b"]);
+      assert.equal(merged[0].todos[0].title, "Theirs");
+      assert.equal(merged[1], lists[1]);
+      assert.deepEqual(conflicts, []);
+    });
+
+    it("treats lists missing from a full update as deleted on the server", () => {
+      const remote = [list("a", [todo("1")])];
+
+      const { lists: merged } = mergeLists(lists, lists, remote);
+
+      assert.deepEqual(ids(merged), ["a"]);
+    });
+  });
+});
+
+describe("applyTheirs", () => {
+  it("applies the server value of a field conflict", () => {
+    const lists = [list("a", [todo("1", { title: "Mine" })])];
+    const conflicts = [{ listId: "a", todoId: "1", field: "title", mine: "Mine", theirs: "Theirs" }];
+
+    const next = applyTheirs(lists, conflicts);
+
+    assert.equal(next[0].todos[0].title, "Theirs");
+    assert.equal(lists[0].todos[0].title, "Mine");
+  });
+
+  it("applies the server title of a list", () => {
+    const lists = [list("a", [], { title: "Mine" })];
+    const conflicts = [{ listId: "a", todoId: null, field: "title", mine: "Mine", theirs: "Theirs" }];
+
+    assert.equal(applyTheirs(lists, conflicts)[0].title, "Theirs");
+  });
+
+  it("restores a todo deleted locally at its server position", () => {
+    const base = [list("a", [todo("1"), todo("2"), todo("3")])];
+    const local = [list("a", [todo("1"), todo("3")])];
+    const remote = [list("a", [todo("1"), todo("2", { isComplete: true }), todo("3")])];
+    const merged = mergeLists(base, local, remote);
+
+    const next = applyTheirs(merged.lists, merged.conflicts);
+
+    assert.deepEqual(ids(next[0].todos), ["1", "2", "3"]);
+    assert.equal(next[0].todos[1].isComplete, true);
+  });
+
+  it("removes a todo the server deleted", () => {
+    const base = [list("a", [todo("1"), todo("2")])];
+    const local = [list("a", [todo("1"), todo("2", { note: "Mine" })])];
+    const remote = [list("a", [todo("1")])];
+    const merged = mergeLists(base, local, remote);
+
+    assert.deepEqual(ids(applyTheirs(merged.lists, merged.conflicts)[0].todos), ["1"]);
+  });
+
+  it("restores a list deleted locally at its server position", () => {
+    const base = [list("a", []), list("b", []), list("c", [])];
+    const local = [list("a", []), list("c", [])];
+    const remote = [list("a", []), list("b", [todo("1")], { version: 2 }), list("c", [])];
+    const merged = mergeLists(base, local, remote);
+
+    const next = applyTheirs(merged.lists, merged.conflicts);
+
+    assert.deepEqual(ids(next), ["a", "b", "c"]);
+    assert.deepEqual(ids(next[1].todos), ["1"]);
+  });
+
+  it("removes a list the server deleted", () => {
+    const base = [list("a", []), list("b", [])];
+    const local = [list("a", []), list("b", [], { title: "Mine" })];
+    const merged = mergeLists(base, local, [list("a", [])]);
+
+    assert.deepEqual(ids(applyTheirs(merged.lists, merged.conflicts)), ["a"]);
+  });
+});
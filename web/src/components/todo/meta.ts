@@ -0,0 +1,20 @@
+import { defineWidgetMeta } from "../../widget";
+
+// Domain and CSP shared by every widget come from mcp-app.config.ts
+export default defineWidgetMeta({
+  description: "A todo list widget",
+  prefersBorder: true,
+  invoking: "Creating a todo list",
+  invoked: "Todo list displayed",
+  tools: [
+    "show-todo",
+    "add-todo",
+    "update-todo",
+    "complete-todo",
+    "delete-todo",
+    "reorder-todos",
+    "create-list",
+    "rename-list",
+    "delete-list",
+  ],
+});
@@ -0,0 +1,17 @@
+import { todoWidgetStateSchema, type TodoWidgetState } from "mcp-app-shared";
+import { defineWidgetState } from "../../widgetState";
+
+// The todo widget's window.openai.widgetState. Bump the version and add a migration whenever
+// todoWidgetStateSchema changes, so conversations saved by older widgets still load
+export const todoWidgetState = defineWidgetState<TodoWidgetState>({
+  version: 1,
+  schema: todoWidgetStateSchema,
+  initialState: () => ({ lastUpdated: new Date().toISOString(), totalTodos: 0 }),
+  migrations: {
+    // Widgets before versioning saved the same fields without a version
+    1: (legacy) => ({
+      lastUpdated: typeof legacy?.lastUpdated === "string" ? legacy.lastUpdated : new Date().toISOString(),
+      totalTodos: typeof legacy?.totalTodos === "number" ? legacy.totalTodos : 0,
+    }),
+  },
+});
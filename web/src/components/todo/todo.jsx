@@ -12,20 +12,24 @@ import DatePicker from "react-datepicker";
 
 // NEW: Import our custom hooks for window.openai API integration
 import { 
-  useToolOutput, 
+  useValidatedToolOutput, 
   useToolInput, 
-  useWidgetState, 
-  useCallTool, 
+  useVersionedWidgetState, 
+  useToolQuery, 
   useSendFollowUpMessage,
   useRequestDisplayMode,
   useOpenAIGlobals 
 } from "../../hooks/useOpenAI";
+import { useTodoAutosave } from "./useTodoAutosave";
+import { todoWidgetState } from "./state";
+// Shared with the MCP server: the shape of the tool outputs this widget renders
+import { todoWidgetOutputSchema } from "mcp-app-shared";
 
 // OLD: Static data access (replaced with window.openai API)
 // const todoData = window.todoData || [];
 
 /* -------------------------- Inject datepicker CSS -------------------------- */
-/* Keeps look aligned with the app: small font, black/gray, soft border/shadow,
+/* Keeps look aligned with the app: small font, theme tokens (theme.css), soft border/shadow,
    and ensures the calendar grid (weeks/days) renders correctly. */
 let __datepickerStylesInjected = false;
 function injectDatepickerStylesOnce() {
@@ -35,11 +39,11 @@ function injectDatepickerStylesOnce() {
   .react-datepicker {
     font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Ubuntu, "Helvetica Neue", Arial, "Noto Sans", "Apple Color Emoji", "Segoe UI Emoji";
     font-size: 12px;
-    background: #fff;
-    border: 1px solid rgba(0,0,0,0.10);
+    background: var(--todo-surface);
+    border: 1px solid var(--todo-border);
     border-radius: 10px;
-    box-shadow: 0 10px 24px rgba(0,0,0,0.10);
-    color: rgba(0,0,0,0.85);
+    box-shadow: 0 10px 24px var(--todo-popover-shadow);
+    color: var(--todo-text);
     overflow: hidden;
     min-width: 232px;
     transform: translateX(calc(-100% + 32px));
@@ -47,15 +51,15 @@ function injectDatepickerStylesOnce() {
     .react-datepicker__aria-live { display: none; }
   .react-datepicker__month-container { float: none; }
   .react-datepicker__header {
-    background: #fff;
-    border-bottom: 1px solid rgba(0,0,0,0.08);
+    background: var(--todo-surface);
+    border-bottom: 1px solid var(--todo-border-subtle);
     padding: 0; /* we'll manage spacing in the custom header */
     text-align: center;
   }
   .react-datepicker__current-month, .react-datepicker-time__header, .react-datepicker-year-header {
     font-size: 12px;
     font-weight: 600;
-    color: rgba(0,0,0,0.75);
+    color: var(--todo-text-secondary);
   }
   .react-datepicker__day-names {
     display: flex;
@@ -68,22 +72,22 @@ function injectDatepickerStylesOnce() {
     line-height: 2rem;
     text-align: center;
     margin: 0.1rem;
-    color: rgba(0,0,0,0.70);
+    color: var(--todo-text-secondary);
   }
-  .react-datepicker__day-name { color: rgba(0,0,0,0.45); font-weight: 600; }
+  .react-datepicker__day-name { color: var(--todo-text-tertiary); font-weight: 600; }
   .react-datepicker__month { margin: 0.25rem 0.4rem 0.5rem; }
   .react-datepicker__week {
     display: flex;
     justify-content: center;
   }
   .react-datepicker__day:hover {
-    background: rgba(0,0,0,0.06);
+    background: var(--todo-hover);
     border-radius: 6px;
     cursor:pointer;
   }
   .react-datepicker__day--selected, .react-datepicker__day--keyboard-selected {
-    background: rgba(0,0,0,0.85);
-    color: #fff;
+    background: var(--todo-accent);
+    color: var(--todo-accent-text);
     border-radius: 6px;
   }
 
@@ -160,7 +164,7 @@ function toYMD(date) {
   return `${y}-${m}-${d}`;
 }
 
-/** Clone seed, adding defaults + stable ids. Keeps `isCurrentlyOpen` if present. */
+/** Clone seed, adding defaults + stable ids. Keeps `isCurrentlyOpen` and the server `version` if present. */
 function buildInitialData(todoData) {
   const addTodoDefaults = (t) => ({
     id: t.id ?? uid(),
@@ -176,6 +180,9 @@ function buildInitialData(todoData) {
     title: l.title ?? "",
     isCurrentlyOpen: !!l.isCurrentlyOpen,
     todos: (l.todos ?? []).map(addTodoDefaults),
+    // Server version the local copy is based on (undefined for lists created in the widget)
+    version: l.version,
+    updatedAt: l.updatedAt,
   }));
 
   return { lists };
@@ -219,7 +226,7 @@ function CircleCheckbox({ checked, onToggle, label }) {
         e.stopPropagation();
         onToggle();
       }}
-      className="w-4 h-4 rounded-full border flex items-center justify-center cursor-pointer select-none outline-none border-gray-400 focus-visible:ring-2 focus-visible:ring-black/20"
+      className="w-4 h-4 rounded-full border flex items-center justify-center cursor-pointer select-none outline-none border-(--todo-control-border) focus-visible:ring-2 focus-visible:ring-(--todo-focus-ring)"
       aria-label={label}
     >
       <AnimatePresence initial={false}>
@@ -230,7 +237,7 @@ function CircleCheckbox({ checked, onToggle, label }) {
             animate={{ scale: 1, opacity: 1 }}
             exit={{ scale: 0.6, opacity: 0 }}
             transition={{ type: "spring", bounce: 0.3, duration: 0.28 }}
-            className="rounded-full bg-black w-[11.5px] h-[11.5px]"
+            className="rounded-full bg-(--todo-accent) w-[11.5px] h-[11.5px]"
           />
         )}
       </AnimatePresence>
@@ -241,7 +248,7 @@ function CircleCheckbox({ checked, onToggle, label }) {
 /* --------------------------------- BaseCard -------------------------------- */
 function BaseCard({ children }) {
   return (
-    <MotionCard className="absolute top-0 left-0 w-full h-full bg-gray-50/100 rounded-3xl border border-black/10 shadow-[0px_8px_14px_rgba(0,0,0,0.05)] overflow-hidden">
+    <MotionCard className="absolute top-0 left-0 w-full h-full bg-(--todo-surface-muted) rounded-3xl border border-(--todo-border) shadow-[0px_8px_14px_var(--todo-shadow)] overflow-hidden">
       {children}
     </MotionCard>
   );
@@ -281,7 +288,7 @@ function DetailsSection({
               value={item.note ?? ""}
               onChange={(e) => updateItemById(item.id, { note: e.target.value })}
               placeholder="Add Note"
-              className="-ml-1 w-full bg-transparent outline-none border-0 focus:ring-0 focus-visible:ring-0 text-sm text-black/55 placeholder-black/30"
+              className="-ml-1 w-full bg-transparent outline-none border-0 focus:ring-0 focus-visible:ring-0 text-sm text-(--todo-text-secondary) placeholder-(--todo-text-placeholder)"
             />
           </div>
         </motion.div>
@@ -423,19 +430,19 @@ function TodoListItem({
           type="button"
           onClick={decreaseMonth}
           disabled={prevMonthButtonDisabled}
-          className="absolute left-2 text-[12px] font-medium text-black/70 hover:text-black disabled:opacity-30 disabled:pointer-events-none"
+          className="absolute left-2 text-[12px] font-medium text-(--todo-text-secondary) hover:text-(--todo-text) disabled:opacity-30 disabled:pointer-events-none"
           aria-label="Previous month"
         >
           Prev
         </button>
-        <div className="text-[12px] font-semibold text-black/75">
+        <div className="text-[12px] font-semibold text-(--todo-text-secondary)">
           {monthYearLabel(date)}
         </div>
         <button
           type="button"
           onClick={increaseMonth}
           disabled={nextMonthButtonDisabled}
-          className="absolute right-2 text-[12px] font-medium text-black/70 hover:text-black disabled:opacity-30 disabled:pointer-events-none"
+          className="absolute right-2 text-[12px] font-medium text-(--todo-text-secondary) hover:text-(--todo-text) disabled:opacity-30 disabled:pointer-events-none"
           aria-label="Next month"
         >
           Next
@@ -463,7 +470,7 @@ function TodoListItem({
         animate={{ opacity: 1, y: 0, scale: 1 }}
         exit={{ opacity: 0, filter: "blur(4px)", scale: 0.98 }}
         transition={{ type: "spring", bounce: 0.18, duration: 0.42 }}
-        className="border-b border-black/5 bg-white"
+        className="border-b border-(--todo-border-subtle) bg-(--todo-surface)"
       >
         {/* Top row */}
         <div
@@ -492,7 +499,7 @@ function TodoListItem({
             }}
             onChange={(e) => updateItemById(item.id, { title: e.target.value })}
             placeholder="Add a to-do"
-            className="leading-tight flex-auto border-transparent border-0 bg-transparent !text-base p-0 outline-none focus-visible:ring-0"
+            className="leading-tight flex-auto border-transparent border-0 bg-transparent !text-base p-0 outline-none focus-visible:ring-0 placeholder-(--todo-text-placeholder)"
             value={item.title}
           />
 
@@ -507,9 +514,9 @@ function TodoListItem({
                 animate={{ opacity: isHovered ? 1 : 0.6 }}
                 onClick={openReactDatePicker}
                 aria-label="Edit due date"
-                className="p-1 rounded-md hover:bg-black/5"
+                className="p-1 rounded-md hover:bg-(--todo-hover)"
               >
-                <Calendar className="w-4 h-4 text-black/40" />
+                <Calendar className="w-4 h-4 text-(--todo-text-tertiary)" />
               </motion.button>
             )}
 
@@ -518,7 +525,7 @@ function TodoListItem({
                 type="button"
                 onClick={openReactDatePicker}
                 aria-label={`Edit due date ${dateLabel}`}
-                className="text-sm text-black/40 hover:text-black/70 rounded-md"
+                className="text-sm text-(--todo-text-tertiary) hover:text-(--todo-text-secondary) rounded-md"
               >
                 {dateLabel}
               </button>
@@ -559,7 +566,7 @@ function TodoListItem({
               aria-label="More actions"
               aria-haspopup="menu"
               aria-expanded={menuOpen}
-              className="p-1 rounded-md select-none text-black/30 hover:text-black cursor-pointer"
+              className="p-1 rounded-md select-none text-(--todo-text-placeholder) hover:text-(--todo-text) cursor-pointer"
               style={{ touchAction: "none" }}
               animate={{ opacity: isHovered ? 1 : 0 }}
               onPointerDown={onEllipsisPointerDown}
@@ -578,13 +585,13 @@ function TodoListItem({
                   animate={{ opacity: 1, scale: 1, y: 0 }}
                   exit={{ opacity: 0, scale: 0.98, y: -2 }}
                   transition={{ type: "spring", bounce: 0.2, duration: 0.18 }}
-                  className="absolute right-0 top-full mt-1 min-w-[120px] rounded-md border border-black/10 bg-white shadow-md z-20"
+                  className="absolute right-0 top-full mt-1 min-w-[120px] rounded-md border border-(--todo-border) bg-(--todo-surface) shadow-md z-20"
                   role="menu"
                   onClick={(e) => e.stopPropagation()}
                 >
                   <button
                     role="menuitem"
-                    className="w-full text-left text-sm px-3 py-2 hover:bg-black/5"
+                    className="w-full text-left text-sm px-3 py-2 hover:bg-(--todo-hover)"
                     onClick={() => {
                       setMenuOpen(false);
                       deleteTodoById(item.id);
@@ -670,7 +677,7 @@ function TodoList({
       animate={{ opacity: 1, transition: { duration: 0 } }}
       exit={{ opacity: 0, transition: { delay: 0.24, duration: 0.24 } }}
       transition={{ type: "spring", bounce: 0.16, duration: 0.56 }}
-      className="bg-white w-full h-full overflow-auto"
+      className="bg-(--todo-surface) w-full h-full overflow-auto"
       layout
     >
       <motion.div
@@ -678,7 +685,7 @@ function TodoList({
         animate={{ opacity: 1 }}
         exit={{ opacity: 0 }}
         transition={{ type: "spring", bounce: 0.16, duration: 0.56 }}
-        className="w-full flex top-0 left-0 absolute h-14 bg-white z-10"
+        className="w-full flex top-0 left-0 absolute h-14 bg-(--todo-surface) z-10"
       />
       <motion.div
         initial={{ scale: 1, y: 0, fontWeight: 500 }}
@@ -695,7 +702,7 @@ function TodoList({
           onBlur={commitTitle}
           onKeyDown={handleTitleKeyDown}
           placeholder={DEFAULT_LIST_TITLE}
-          className="w-full bg-transparent border-0 outline-none focus:ring-0 focus-visible:ring-0 p-0 m-0 text-inherit"
+          className="w-full bg-transparent border-0 outline-none focus:ring-0 focus-visible:ring-0 p-0 m-0 text-inherit placeholder-(--todo-text-placeholder)"
         />
       </motion.div>
 
@@ -732,6 +739,103 @@ function TodoList({
   );
 }
 
+/* ============================ Save status ============================ */
+const SAVE_STATUS_LABELS = {
+  dirty: "Unsaved changes",
+  saving: "Saving…",
+  saved: "Saved",
+  error: "Save failed",
+  conflict: "Needs review",
+};
+
+/* Small autosave indicator; offers a manual retry when saving failed */
+function SaveStatus({ status, onRetry }) {
+  if (status === "disabled") return null;
+  return (
+    <div className="flex items-center gap-1.5 mr-2 text-xs text-(--todo-text-tertiary)" role="status" aria-live="polite">
+      <span className={status === "error" ? "text-(--todo-danger-text)" : undefined}>{SAVE_STATUS_LABELS[status]}</span>
+      {status === "error" && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="px-1.5 py-0.5 rounded text-(--todo-danger-text) bg-(--todo-danger-bg) hover:bg-(--todo-danger-bg-hover)"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
+
+/* ============================ Conflict banner ============================ */
+/* Shown when the same item was changed both here and on the server (e.g. by the model).
+   Autosave is paused until the user keeps their edits or takes the server's. */
+function describeConflict(c, lists) {
+  const list = lists.find((l) => l.id === c.listId);
+  const todo = list?.todos.find((t) => t.id === c.todoId);
+  const name = c.todoId == null
+    ? `List "${list?.title ?? c.mine?.title ?? c.theirs?.title ?? ""}"`
+    : `"${todo?.title || c.mine?.title || c.theirs?.title || "Untitled"}"`;
+
+  if (c.field === "deleted") {
+    return c.mine ? `${name} was deleted on the server` : `${name} was changed on the server`;
+  }
+  return `${name}: ${c.field} changed on the server`;
+}
+
+function ConflictBanner({ conflicts, lists, onResolve }) {
+  if (!conflicts.length) return null;
+  return (
+    <div className="absolute left-3 right-3 bottom-3 z-30 rounded-xl border border-(--todo-warning-border) bg-(--todo-warning-bg) p-3 text-xs text-(--todo-warning-text) shadow-md">
+      <div className="font-medium mb-1">
+        {conflicts.length === 1 ? "1 change conflicts" : `${conflicts.length} changes conflict`} with the server
+      </div>
+      <ul className="mb-2 space-y-0.5 max-h-16 overflow-auto">
+        {conflicts.map((c) => (
+          <li key={`${c.listId}/${c.todoId}/${c.field}`}>{describeConflict(c, lists)}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onResolve("mine")}
+          className="px-2 py-1 rounded bg-(--todo-warning-button) hover:bg-(--todo-warning-button-hover)"
+        >
+          Keep mine
+        </button>
+        <button
+          type="button"
+          onClick={() => onResolve("theirs")}
+          className="px-2 py-1 rounded bg-(--todo-surface) border border-(--todo-warning-border) hover:bg-(--todo-warning-bg)"
+        >
+          Use server's
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* =========================== Output error banner =========================== */
+/* Shown when the tool output does not match the shared schema (e.g. the server and widget
+   were built from different versions). The widget renders no server data in that case. */
+function OutputErrorBanner({ error }) {
+  if (!error) return null;
+  const issues = error.issues.slice(0, 3);
+  return (
+    <div className="mt-3 rounded-xl border border-(--todo-danger-border) bg-(--todo-danger-bg) p-3 text-xs text-(--todo-danger-text)" role="alert">
+      <div className="font-medium mb-1">Couldn't read the data sent by the server</div>
+      <ul className="space-y-0.5">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <code>{issue.path.join(".") || "output"}</code>: {issue.message}
+          </li>
+        ))}
+        {error.issues.length > issues.length && <li>…and {error.issues.length - issues.length} more</li>}
+      </ul>
+    </div>
+  );
+}
+
 /* ============================ Zoom container ============================ */
 function ZoomViewer({ origin, containerRef, children }) {
   const originRect = getRelativePosition(
@@ -783,13 +887,13 @@ function TodoListGroup({
         ref={ref}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
-        className="p-5 text-md cursor-pointer hover:bg-white/40 border-b border-black/10 flex items-center gap-3"
+        className="p-5 text-md cursor-pointer hover:bg-(--todo-list-hover) border-b border-(--todo-border) flex items-center gap-3"
         onClick={() => setCurrentTodoList(ref, index)}
       >
         <div className="flex-1">{title}</div>
         <MotionTrash
           animate={{ opacity: isHovered ? 1 : 0 }}
-          className="w-4 h-4 text-black/30 hover:text-black cursor-pointer"
+          className="w-4 h-4 text-(--todo-text-placeholder) hover:text-(--todo-text) cursor-pointer"
           onClick={(e) => {
             e.stopPropagation();
             onDelete(index);
@@ -807,55 +911,65 @@ export function App() {
   // NEW: Use window.openai API hooks for data and state management
   // This replaces the old static window.todoData approach
   
-  // Get data from MCP server tool output (replaces window.todoData)
-  const toolOutput = useToolOutput();
+  // Get data from MCP server tool output (replaces window.todoData),
+  // validated against the schema shared with the server
+  const { output: toolOutput, error: toolOutputError } = useValidatedToolOutput(todoWidgetOutputSchema);
   const toolInput = useToolInput();
   
   // Get theme and layout information from ChatGPT
   const { theme, maxHeight, displayMode } = useOpenAIGlobals();
   
-  // Persist widget state across sessions (visible to ChatGPT)
-  const [widgetState, setWidgetState] = useWidgetState({ 
-    lastUpdated: new Date().toISOString(),
-    totalTodos: 0 
-  });
+  // Persist widget state across sessions (visible to ChatGPT), migrated from older widget versions
+  const [widgetState, setWidgetState] = useVersionedWidgetState(todoWidgetState);
   
   // Tools for communicating with the MCP server
-  const { callTool, isLoading: isServerLoading } = useCallTool();
   const sendFollowUpMessage = useSendFollowUpMessage();
   const requestDisplayMode = useRequestDisplayMode();
   
   // Build initial data from tool output (replaces static todoData)
   const initialData = useMemo(() => {
     // Get todo data from MCP server response
-    const todoData = toolOutput?.todos || toolOutput?.lists || [];
+    const todoData = toolOutput?.lists || [];
     return buildInitialData(todoData);
   }, [toolOutput]);
   
   const [data, setData] = useState(initialData);
 
+  // Autosave local edits back to the server through save-todo-state,
+  // merging in server changes (e.g. from the model's tool calls) as they arrive
+  const normalizeLists = useCallback((lists) => buildInitialData(lists).lists, []);
+  const {
+    status: saveStatus,
+    retry: retrySave,
+    conflicts,
+    resolveConflicts,
+    applyRemote,
+  } = useTodoAutosave({ data, setData, normalizeLists });
+
   useEffect(() => {
     injectDatepickerStylesOnce();
   }, []);
   
-  // Update data when tool output changes (e.g., when server sends new data)
+  // Merge new tool output into local data (e.g., when the model changed the lists)
+  // Unsaved local edits are kept; outputs without lists (e.g. a save confirmation) are ignored
   useEffect(() => {
-    if (toolOutput) {
-      const todoData = toolOutput.todos || toolOutput.lists || [];
-      const newData = buildInitialData(todoData);
-      setData(newData);
+    const todoData = toolOutput?.lists;
+    if (todoData) {
+      applyRemote(todoData, { partial: !!toolOutput.partial });
     }
-  }, [toolOutput]);
+  }, [toolOutput, applyRemote]);
   
-  // Update widget state when data changes
+  // Widget state is derived from the lists and written only when it changes. `lastUpdated` is the
+  // newest server `updatedAt`, not the time of the last render
+  const totalTodos = useMemo(() => data.lists.reduce((sum, list) => sum + list.todos.length, 0), [data.lists]);
+  const lastUpdated = useMemo(
+    () => data.lists.reduce((latest, list) => (list.updatedAt > latest ? list.updatedAt : latest), ""),
+    [data.lists]
+  ) || widgetState.lastUpdated;
   useEffect(() => {
-    const totalTodos = data.lists.reduce((sum, list) => sum + list.todos.length, 0);
-    setWidgetState(prev => ({
-      ...prev,
-      lastUpdated: new Date().toISOString(),
-      totalTodos
-    }));
-  }, [data]); // Remove setWidgetState from dependencies to prevent infinite loop
+    if (widgetState.totalTodos === totalTodos && widgetState.lastUpdated === lastUpdated) return;
+    setWidgetState({ totalTodos, lastUpdated });
+  }, [totalTodos, lastUpdated, widgetState, setWidgetState]);
 
   // index of the currently opened list, or null
   const initialOpenIndex = useMemo(() => {
@@ -1025,17 +1139,26 @@ export function App() {
   /**
    * Refresh todos from server (if server supports it)
    * This demonstrates how to call server tools from the component
+   * The query only runs when the refresh button calls `refetch`; the server knows the signed-in
+   * user, so no user ID is sent
    */
-  const refreshFromServer = useCallback(async () => {
-    try {
-      await callTool('refresh-todos', { 
-        listId: currentList?.id,
-        userId: toolInput?.userId 
-      });
-    } catch (error) {
-      console.error('Failed to refresh from server:', error);
+  const {
+    data: refreshed,
+    error: refreshError,
+    isLoading: isRefreshing,
+    refetch: refreshFromServer,
+  } = useToolQuery('refresh-todos', { listId: currentList?.id }, { enabled: false });
+
+  // Merge the fresh copy in without discarding unsaved edits
+  useEffect(() => {
+    if (refreshed?.lists) {
+      applyRemote(refreshed.lists, { partial: !!refreshed.partial });
     }
-  }, [callTool, currentList, toolInput]);
+  }, [refreshed, applyRemote]);
+
+  useEffect(() => {
+    if (refreshError) console.error('Failed to refresh from server:', refreshError);
+  }, [refreshError]);
   
   // Check for completion when todos change
   useEffect(() => {
@@ -1043,7 +1166,7 @@ export function App() {
   }, [checkAndNotifyCompletion]);
 
   return (
-    <div className="my-5 antialiased">
+    <div className="todo-widget my-5 antialiased" data-theme={theme}>
       <div
         className="relative max-w/full max-h/full"
         style={{ width: `${MAX_CARD_WIDTH_REM}rem`, height: `${MAX_CARD_HEIGHT_REM}rem` }}
@@ -1065,29 +1188,31 @@ export function App() {
                 className="cursor-pointer"
               />
               <div className="flex-auto" />
+
+              <SaveStatus status={saveStatus} onRetry={retrySave} />
               
               {/* NEW: Interactive buttons demonstrating window.openai API */}
               {currentList && (
                 <div className="flex items-center gap-2 mr-2">
                   {/* Theme indicator */}
-                  <div className={`text-xs px-2 py-1 rounded ${theme === 'dark' ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-700'}`}>
+                  <div className="text-xs px-2 py-1 rounded bg-(--todo-hover) text-(--todo-text-secondary)">
                     {theme}
                   </div>
                   
                   {/* Refresh button */}
                   <button
                     onClick={refreshFromServer}
-                    disabled={isServerLoading}
-                    className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:opacity-50"
+                    disabled={isRefreshing}
+                    className="text-xs px-2 py-1 rounded bg-(--todo-info-bg) text-(--todo-info-text) hover:bg-(--todo-info-bg-hover) disabled:opacity-50"
                     title="Refresh from server"
                   >
-                    {isServerLoading ? '...' : '↻'}
+                    {isRefreshing ? '...' : '↻'}
                   </button>
                   
                   {/* Fullscreen button */}
                   <button
                     onClick={goFullscreen}
-                    className="text-xs px-2 py-1 rounded bg-green-100 text-green-700 hover:bg-green-200"
+                    className="text-xs px-2 py-1 rounded bg-(--todo-success-bg) text-(--todo-success-text) hover:bg-(--todo-success-bg-hover)"
                     title="Go fullscreen"
                   >
                     ⛶
@@ -1109,10 +1234,11 @@ export function App() {
             >
               <div className="p-5">
                 <h1 className="font-medium text-2xl tracking-tight">My Lists</h1>
+                <OutputErrorBanner error={toolOutputError} />
                 
                 {/* NEW: Debug information showing window.openai integration */}
                 {process.env.NODE_ENV === 'development' && (
-                  <div className="mt-2 text-xs text-gray-500 space-y-1">
+                  <div className="mt-2 text-xs text-(--todo-text-tertiary) space-y-1">
                     <div>Widget State: {widgetState.totalTodos} todos, last updated {new Date(widgetState.lastUpdated).toLocaleTimeString()}</div>
                     <div>Display Mode: {displayMode} | Max Height: {maxHeight}px</div>
                     <div>Tool Input: {toolInput ? JSON.stringify(toolInput).substring(0, 50) + '...' : 'None'}</div>
@@ -1170,6 +1296,8 @@ export function App() {
               )}
             </AnimatePresence>
           </div>
+
+          <ConflictBanner conflicts={conflicts} lists={todoLists} onResolve={resolveConflicts} />
         </BaseCard>
       </div>
     </div>
@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ToolCallError, useToolMutation } from "../../hooks/useOpenAI";
+import { applyTheirs, mergeLists } from "./merge";
+
+/* --------------------------------- Autosave -------------------------------- */
+/* Persists in-widget edits back to the MCP server.
+   Edits are debounced and batched: once the user pauses, every list that changed since the
+   last successful save is sent through `save-todo-state`, and every list that disappeared
+   through `delete-list`. Failed saves are retried with exponential backoff.
+
+   Edits are optimistic: the UI updates first and the server catches up. Every write carries
+   the list version the edits started from. When the server has moved on (the model changed the
+   list, or a newer tool output arrived), the server copy is merged into the local one; true
+   conflicts pause autosave until the user picks a side. */
+
+const SAVE_DEBOUNCE_MS = 800;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/** The persisted part of a list. `isCurrentlyOpen` is UI-only and never triggers a save. */
+function snapshotList(list) {
+  return JSON.stringify({ title: list.title, todos: list.todos });
+}
+
+/** Lists that differ from their server copy, and IDs of server lists that were removed locally. */
+function diffAgainstBase(lists, base) {
+  const dirty = lists.filter((l) => !base.has(l.id) || snapshotList(base.get(l.id)) !== snapshotList(l));
+  const deleted = [...base.keys()].filter((id) => !lists.some((l) => l.id === id));
+  return { dirty, deleted };
+}
+
+/**
+ * Autosaves the widget's lists to the server and reconciles them with server updates.
+ *
+ * @param {Object} options
+ * @param {{ lists: Array }} options.data - Current widget data
+ * @param {(data: { lists: Array }) => void} options.setData - Replaces the widget data
+ * @param {(lists: Array) => Array} options.normalizeLists - Fills defaults on lists from the server
+ * @returns {{
+ *   status: "saved" | "dirty" | "saving" | "error" | "conflict" | "disabled",
+ *   error: Error | null,
+ *   retry: () => void,
+ *   conflicts: import("./merge").Conflict[],
+ *   resolveConflicts: (choice: "mine" | "theirs") => void,
+ *   applyRemote: (lists: Array, options?: { partial?: boolean }) => void,
+ * }}
+ * `applyRemote` merges newer server lists (e.g. a new tool output) into the local data.
+ * Status is "disabled" when the host cannot call tools (e.g. the local Vite dev server).
+ */
+export function useTodoAutosave({ data, setData, normalizeLists }) {
+  // Retries are left to the backoff below, which also picks up edits made in between
+  const { mutateAsync: saveList } = useToolMutation("save-todo-state");
+  const { mutateAsync: deleteList } = useToolMutation("delete-list");
+  const enabled = typeof window !== "undefined" && !!window.openai?.callTool;
+
+  const [status, setStatus] = useState(enabled ? "saved" : "disabled");
+  const [error, setError] = useState(null);
+  const [conflicts, setConflicts] = useState([]);
+
+  const baseRef = useRef(new Map(data.lists.map((l) => [l.id, l]))); // Server copy of each list
+  const dataRef = useRef(data);
+  const conflictsRef = useRef(conflicts);
+  const timerRef = useRef(null);
+  const savingRef = useRef(false);
+  const attemptRef = useRef(0);
+  const flushRef = useRef(() => {});
+
+  dataRef.current = data;
+  conflictsRef.current = conflicts;
+
+  const schedule = useCallback((delay) => {
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => flushRef.current(), delay);
+  }, []);
+
+  /**
+   * Merges server lists into the local data and records them as the new base.
+   * `partial`: the server lists are a subset (e.g. a single refreshed list).
+   */
+  const applyRemote = useCallback((remoteLists, { partial = false } = {}) => {
+    const remote = normalizeLists(remoteLists);
+    const base = baseRef.current;
+    const merged = mergeLists([...base.values()], dataRef.current.lists, remote, { partial });
+
+    if (!partial) base.clear();
+    for (const list of remote) base.set(list.id, list);
+
+    dataRef.current = { lists: merged.lists };
+    setData(dataRef.current);
+    if (merged.conflicts.length) {
+      // A newer conflict on the same item replaces the older one
+      const key = (c) => `${c.listId}/${c.todoId}/${c.field}`;
+      const incoming = new Set(merged.conflicts.map(key));
+      setConflicts((prev) => [...prev.filter((c) => !incoming.has(key(c))), ...merged.conflicts]);
+    }
+  }, [normalizeLists, setData]);
+
+  /**
+   * Handles a write the server rejected because the list changed: merges the stored list
+   * (or its deletion) into the local data.
+   */
+  const applyConflict = useCallback((listId, current) => {
+    const base = baseRef.current;
+    const baseList = base.get(listId);
+    const localList = dataRef.current.lists.find((l) => l.id === listId);
+    const remote = current ? normalizeLists([current]) : [];
+    const merged = mergeLists(
+      baseList ? [baseList] : [],
+      localList ? [localList] : [],
+      remote
+    );
+
+    if (remote[0]) base.set(listId, remote[0]);
+    else base.delete(listId);
+
+    // Splice the merged list back in place of the local one
+    const others = dataRef.current.lists.filter((l) => l.id !== listId);
+    const index = localList ? dataRef.current.lists.indexOf(localList) : 0;
+    others.splice(index, 0, ...merged.lists);
+    dataRef.current = { lists: others };
+    setData(dataRef.current);
+    if (merged.conflicts.length) setConflicts((prev) => [...prev, ...merged.conflicts]);
+  }, [normalizeLists, setData]);
+
+  const flush = useCallback(async () => {
+    clearTimeout(timerRef.current);
+    timerRef.current = null;
+    // A save is in flight; it re-checks for new edits when it finishes
+    if (savingRef.current) return;
+    // Conflicts wait for the user to pick a side
+    if (conflictsRef.current.length) return;
+
+    const base = baseRef.current;
+    const { dirty, deleted } = diffAgainstBase(dataRef.current.lists, base);
+    if (!dirty.length && !deleted.length) {
+      setStatus("saved");
+      return;
+    }
+
+    savingRef.current = true;
+    setStatus("saving");
+    let conflicted = false;
+    try {
+      for (const list of dirty) {
+        const result = await saveList({
+          listId: list.id,
+          title: list.title,
+          todos: list.todos,
+          baseVersion: base.get(list.id)?.version,
+        });
+        if (result?.conflict) {
+          applyConflict(list.id, result.list);
+          conflicted = true;
+          continue;
+        }
+        base.set(list.id, { ...list, version: result?.list?.version, updatedAt: result?.list?.updatedAt });
+      }
+      for (const listId of deleted) {
+        const result = await deleteList({ listId, baseVersion: base.get(listId)?.version });
+        if (result?.conflict) {
+          applyConflict(listId, result.list);
+          conflicted = true;
+          continue;
+        }
+        base.delete(listId);
+      }
+
+      attemptRef.current = 0;
+      setError(null);
+      savingRef.current = false;
+
+      // Pick up merged lists and edits made while this batch was in flight
+      const pending = diffAgainstBase(dataRef.current.lists, base);
+      if (conflictsRef.current.length) {
+        setStatus("conflict");
+      } else if (conflicted || pending.dirty.length || pending.deleted.length) {
+        setStatus("dirty");
+        schedule(SAVE_DEBOUNCE_MS);
+      } else {
+        setStatus("saved");
+      }
+    } catch (err) {
+      savingRef.current = false;
+      // The widget unmounted mid-save
+      if (err instanceof ToolCallError && err.code === "aborted") return;
+      console.error("Failed to save todos:", err);
+      setError(err);
+      setStatus("error");
+
+      const delay = Math.min(RETRY_BASE_MS * 2 ** attemptRef.current, RETRY_MAX_MS);
+      attemptRef.current += 1;
+      schedule(delay);
+    }
+  }, [saveList, deleteList, schedule, applyConflict]);
+
+  flushRef.current = flush;
+
+  // Debounce a save whenever the persisted part of the data changes
+  useEffect(() => {
+    if (!enabled || savingRef.current) return;
+    if (conflicts.length) {
+      clearTimeout(timerRef.current);
+      setStatus("conflict");
+      return;
+    }
+    const { dirty, deleted } = diffAgainstBase(data.lists, baseRef.current);
+    if (!dirty.length && !deleted.length) {
+      setStatus((s) => (s === "conflict" ? "saved" : s));
+      return;
+    }
+
+    setStatus("dirty");
+    schedule(SAVE_DEBOUNCE_MS);
+  }, [data, conflicts, enabled, schedule]);
+
+  // Save right away when the widget is hidden, and stop timers on unmount
+  useEffect(() => {
+    if (!enabled) return;
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") flushRef.current();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      clearTimeout(timerRef.current);
+    };
+  }, [enabled]);
+
+  /**
+   * Settles every pending conflict. The merged data already holds the local side ("mine");
+   * "theirs" swaps in the server side. Autosave resumes afterwards.
+   */
+  const resolveConflicts = useCallback((choice) => {
+    if (choice === "theirs") {
+      dataRef.current = { lists: applyTheirs(dataRef.current.lists, conflictsRef.current) };
+      setData(dataRef.current);
+    }
+    conflictsRef.current = [];
+    setConflicts([]);
+  }, [setData]);
+
+  const retry = useCallback(() => {
+    flushRef.current();
+  }, []);
+
+  return { status, error, retry, conflicts, resolveConflicts, applyRemote };
+}
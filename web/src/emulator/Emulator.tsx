@@ -0,0 +1,357 @@
+/**
+ * ChatGPT host emulator UI (emulator.html).
+ *
+ * Renders a widget in an iframe with a mocked window.openai and lets you:
+ * - connect to the local MCP server and run its tools as the model would
+ * - edit toolInput/toolOutput by hand
+ * - switch theme, display mode, max height, locale and device
+ * - watch what the widget does (tool calls, widget state, follow-up messages, ...)
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+
+import { EmulatorHost, type OpenAIGlobals } from './host';
+import { McpSseClient, type McpTool } from './mcpClient';
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+const WIDGETS = Object.keys(import.meta.glob('../components/*/index.jsx')).map(
+  (file) => file.split('/')[2]
+);
+
+const DEFAULT_SERVER_URL = '/mcp';   // Proxied to the MCP server by the Vite dev server
+
+/* ------------------------------- JSON editor ------------------------------- */
+/* Textarea holding a JSON draft; applies it when it parses. */
+function JsonEditor({ label, value, onApply }: {
+  label: string;
+  value: unknown;
+  onApply: (value: any) => void;
+}) {
+  const [draft, setDraft] = useState(() => JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow external changes (e.g. a tool run)
+  useEffect(() => {
+    setDraft(JSON.stringify(value, null, 2));
+    setError(null);
+  }, [value]);
+
+  const apply = () => {
+    try {
+      onApply(draft.trim() ? JSON.parse(draft) : null);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <Section title={label}>
+      <textarea
+        className="w-full h-40 font-mono text-xs border border-black/10 rounded-md p-2"
+        value={draft}
+        spellCheck={false}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-xs text-red-600 truncate">{error}</span>
+        <button className="text-xs px-2 py-1 rounded-md bg-black text-white" onClick={apply}>
+          Apply
+        </button>
+      </div>
+    </Section>
+  );
+}
+
+/* --------------------------------- Section --------------------------------- */
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border-b border-black/5 p-3">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-black/50 mb-2">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/* ------------------------------- Connection -------------------------------- */
+function ConnectionPanel({ status, error, onConnect }: {
+  status: ConnectionStatus;
+  error: string | null;
+  onConnect: (url: string, token: string) => void;
+}) {
+  const [url, setUrl] = useState(DEFAULT_SERVER_URL);
+  const [token, setToken] = useState('');
+
+  return (
+    <Section title="MCP server">
+      <input
+        className="w-full text-xs border border-black/10 rounded-md p-1.5 mb-1"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="SSE endpoint"
+      />
+      <input
+        className="w-full text-xs border border-black/10 rounded-md p-1.5 mb-1"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        placeholder="Bearer token (only with AUTH_MODE=dev/introspection)"
+      />
+      <div className="flex items-center justify-between">
+        <span className={`text-xs ${status === 'error' ? 'text-red-600' : 'text-black/60'}`}>
+          {status}{error ? `: ${error}` : ''}
+        </span>
+        <button
+          className="text-xs px-2 py-1 rounded-md bg-black text-white disabled:opacity-40"
+          disabled={status === 'connecting'}
+          onClick={() => onConnect(url, token)}
+        >
+          {status === 'connected' ? 'Reconnect' : 'Connect'}
+        </button>
+      </div>
+    </Section>
+  );
+}
+
+/* -------------------------------- Tool runner ------------------------------- */
+/* Calls a tool the way the model would and feeds the result to the widget. */
+function ToolRunner({ host, tools }: { host: EmulatorHost; tools: McpTool[] }) {
+  const [name, setName] = useState('');
+  const [args, setArgs] = useState('{}');
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Default to the first tool that renders a widget
+  useEffect(() => {
+    if (name || !tools.length) return;
+    const withWidget = tools.find((t) => t._meta?.['openai/outputTemplate']);
+    setName((withWidget ?? tools[0]).name);
+  }, [tools, name]);
+
+  const run = async () => {
+    setRunning(true);
+    try {
+      const result = await host.runTool(name, args.trim() ? JSON.parse(args) : {});
+      setError(result?.isError ? 'Tool returned an error, see the log' : null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Section title="Run tool (as the model)">
+      <select
+        className="w-full text-xs border border-black/10 rounded-md p-1.5 mb-1"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        disabled={!tools.length}
+      >
+        {!tools.length && <option>Connect to list tools</option>}
+        {tools.map((t) => (
+          <option key={t.name} value={t.name}>{t.name}</option>
+        ))}
+      </select>
+      <textarea
+        className="w-full h-20 font-mono text-xs border border-black/10 rounded-md p-2"
+        value={args}
+        spellCheck={false}
+        onChange={(e) => setArgs(e.target.value)}
+      />
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-xs text-red-600 truncate">{error}</span>
+        <button
+          className="text-xs px-2 py-1 rounded-md bg-black text-white disabled:opacity-40"
+          disabled={!name || running}
+          onClick={run}
+        >
+          {running ? 'Running…' : 'Run'}
+        </button>
+      </div>
+    </Section>
+  );
+}
+
+/* --------------------------------- Globals --------------------------------- */
+function GlobalsPanel({ globals, onChange }: {
+  globals: OpenAIGlobals;
+  onChange: (changes: Partial<OpenAIGlobals>) => void;
+}) {
+  const field = 'flex items-center justify-between text-xs mb-1.5';
+  const input = 'border border-black/10 rounded-md p-1 text-xs w-32';
+
+  return (
+    <Section title="Host globals">
+      <label className={field}>
+        Theme
+        <select className={input} value={globals.theme} onChange={(e) => onChange({ theme: e.target.value as OpenAIGlobals['theme'] })}>
+          <option value="light">light</option>
+          <option value="dark">dark</option>
+        </select>
+      </label>
+      <label className={field}>
+        Display mode
+        <select className={input} value={globals.displayMode} onChange={(e) => onChange({ displayMode: e.target.value as OpenAIGlobals['displayMode'] })}>
+          <option value="inline">inline</option>
+          <option value="pip">pip</option>
+          <option value="fullscreen">fullscreen</option>
+        </select>
+      </label>
+      <label className={field}>
+        Max height
+        <input
+          className={input}
+          type="number"
+          min={100}
+          step={20}
+          value={globals.maxHeight}
+          onChange={(e) => onChange({ maxHeight: Number(e.target.value) })}
+        />
+      </label>
+      <label className={field}>
+        Locale
+        <input className={input} value={globals.locale} onChange={(e) => onChange({ locale: e.target.value })} />
+      </label>
+      <label className={field}>
+        Device
+        <select
+          className={input}
+          value={globals.userAgent.device.type}
+          onChange={(e) => {
+            const type = e.target.value as OpenAIGlobals['userAgent']['device']['type'];
+            const touch = type !== 'desktop';
+            onChange({ userAgent: { device: { type }, capabilities: { hover: !touch, touch } } });
+          }}
+        >
+          <option value="desktop">desktop</option>
+          <option value="tablet">tablet</option>
+          <option value="mobile">mobile</option>
+        </select>
+      </label>
+    </Section>
+  );
+}
+
+/* -------------------------------- Event log -------------------------------- */
+function EventLog({ host }: { host: EmulatorHost }) {
+  const { events } = useSyncExternalStore(host.subscribe, host.getSnapshot);
+
+  return (
+    <Section title="Widget events">
+      <button className="text-xs underline text-black/50 mb-1" onClick={() => host.clearLog()}>Clear</button>
+      <ul className="space-y-1 max-h-72 overflow-auto">
+        {events.map((e) => (
+          <li key={e.id} className="text-xs">
+            <details>
+              <summary className="cursor-pointer">
+                <span className="text-black/40">{e.time}</span>{' '}
+                <span className={e.type.toLowerCase().includes('error') ? 'text-red-600' : 'font-medium'}>{e.type}</span>
+              </summary>
+              <pre className="whitespace-pre-wrap break-all bg-black/5 rounded p-1 mt-1">
+                {JSON.stringify(e.detail, null, 2)}
+              </pre>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
+
+/* ---------------------------------- Stage ---------------------------------- */
+/* Where the widget iframe lives, sized like ChatGPT would size it for the display mode. */
+function Stage({ widget, globals }: { widget: string; globals: OpenAIGlobals }) {
+  const dark = globals.theme === 'dark';
+  const mobile = globals.userAgent.device.type === 'mobile';
+  const width = mobile ? 390 : globals.userAgent.device.type === 'tablet' ? 768 : 760;
+
+  const frameStyle: React.CSSProperties =
+    globals.displayMode === 'fullscreen'
+      ? { position: 'absolute', inset: 0, width: '100%', height: '100%' }
+      : globals.displayMode === 'pip'
+        ? { position: 'absolute', top: 16, left: '50%', transform: 'translateX(-50%)', width: Math.min(width, 640), height: Math.min(globals.maxHeight, 480), boxShadow: '0 8px 32px rgba(0,0,0,0.2)' }
+        : { width, height: globals.maxHeight };
+
+  return (
+    <main className={`relative flex-1 overflow-auto p-6 ${dark ? 'bg-[#212121]' : 'bg-[#f7f7f8]'}`}>
+      <iframe
+        key={widget}
+        title={`${widget} widget`}
+        src={`/emulator-frame.html?widget=${encodeURIComponent(widget)}`}
+        className={`mx-auto block rounded-2xl border ${dark ? 'border-white/10 bg-[#212121]' : 'border-black/10 bg-white'}`}
+        style={frameStyle}
+      />
+    </main>
+  );
+}
+
+/* --------------------------------- Emulator -------------------------------- */
+export function Emulator({ host }: { host: EmulatorHost }) {
+  const { globals } = useSyncExternalStore(host.subscribe, host.getSnapshot);
+  const [widget, setWidget] = useState(WIDGETS[0] ?? 'todo');
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [tools, setTools] = useState<McpTool[]>([]);
+
+  const connect = useCallback(async (url: string, token: string) => {
+    host.client?.close();
+    host.client = null;
+    setStatus('connecting');
+    setConnectionError(null);
+
+    const client = new McpSseClient({
+      url,
+      token: token || undefined,
+      onNotification: (message) => host.log('notification', message),
+      onClose: (error) => {
+        if (host.client !== client) return;
+        host.client = null;
+        setStatus(error ? 'error' : 'disconnected');
+        setConnectionError(error?.message ?? null);
+      },
+    });
+    try {
+      await client.connect();
+      host.client = client;
+      setTools(await client.listTools());
+      setStatus('connected');
+    } catch (error) {
+      client.close();
+      setStatus('error');
+      setConnectionError((error as Error).message);
+    }
+  }, [host]);
+
+  // Connect to the default server on load
+  useEffect(() => {
+    connect(DEFAULT_SERVER_URL, '');
+    return () => host.client?.close();
+  }, [connect, host]);
+
+  const setGlobals = useCallback((changes: Partial<OpenAIGlobals>) => host.setGlobals(changes), [host]);
+
+  return (
+    <div className="flex h-screen text-black">
+      <aside className="w-96 shrink-0 overflow-auto border-r border-black/10 bg-white">
+        <header className="p-3 border-b border-black/10">
+          <h1 className="text-sm font-semibold">ChatGPT host emulator</h1>
+          <label className="flex items-center justify-between text-xs mt-2">
+            Widget
+            <select className="border border-black/10 rounded-md p-1 text-xs" value={widget} onChange={(e) => setWidget(e.target.value)}>
+              {WIDGETS.map((w) => <option key={w} value={w}>{w}</option>)}
+            </select>
+          </label>
+        </header>
+        <ConnectionPanel status={status} error={connectionError} onConnect={connect} />
+        <ToolRunner host={host} tools={tools} />
+        <GlobalsPanel globals={globals} onChange={setGlobals} />
+        <JsonEditor label="toolInput" value={globals.toolInput} onApply={(toolInput) => setGlobals({ toolInput })} />
+        <JsonEditor label="toolOutput" value={globals.toolOutput} onApply={(toolOutput) => setGlobals({ toolOutput })} />
+        <JsonEditor label="widgetState" value={globals.widgetState} onApply={(widgetState) => setGlobals({ widgetState })} />
+        <EventLog host={host} />
+      </aside>
+      <Stage widget={widget} globals={globals} />
+    </div>
+  );
+}
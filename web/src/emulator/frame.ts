@@ -0,0 +1,43 @@
+/**
+ * Entry point of the emulator's widget frame (emulator-frame.html?widget=<name>).
+ *
+ * Mirrors what ChatGPT does for a built widget: installs window.openai from the parent's
+ * EmulatorHost, creates the `<name>-root` element and loads the component's index.jsx with
+ * the global and component CSS, exactly like the production bundle built by build.mts.
+ */
+
+import '../index.css';
+import type { EmulatorHost } from './host';
+
+const widgetEntries = import.meta.glob('../components/*/index.jsx');
+const widgetStyles = import.meta.glob('../components/*/*.css');
+
+const widget = new URLSearchParams(window.location.search).get('widget') ?? 'todo';
+const host = (window.parent as Window & { __emulatorHost?: EmulatorHost }).__emulatorHost;
+
+async function main() {
+  if (!host) {
+    document.body.textContent = 'Open emulator.html instead: this page runs inside the emulator.';
+    return;
+  }
+  const load = widgetEntries[`../components/${widget}/index.jsx`];
+  if (!load) {
+    document.body.textContent = `Unknown widget "${widget}"`;
+    return;
+  }
+
+  host.install(window);
+
+  const root = document.createElement('div');
+  root.id = `${widget}-root`;
+  document.body.appendChild(root);
+
+  const styles = Object.entries(widgetStyles).filter(([file]) => file.startsWith(`../components/${widget}/`));
+  await Promise.all(styles.map(([, loadStyle]) => loadStyle()));
+  await load();
+}
+
+main().catch((error) => {
+  console.error('Failed to load widget', error);
+  document.body.textContent = `Failed to load widget: ${error.message}`;
+});
@@ -0,0 +1,187 @@
+/**
+ * Mock ChatGPT host for the emulator page.
+ *
+ * Holds the values ChatGPT exposes on window.openai (tool input/output, widget state, theme,
+ * display mode, ...), installs a window.openai object into the widget frame, and dispatches
+ * `openai:set_globals` there whenever a value changes, the same way ChatGPT does.
+ * callTool is forwarded to the local MCP server through McpSseClient.
+ */
+
+import type { McpSseClient } from './mcpClient';
+
+type OpenAI = NonNullable<Window['openai']>;
+
+export type OpenAIGlobals = Pick<
+  OpenAI,
+  | 'toolInput'
+  | 'toolOutput'
+  | 'toolResponseMetadata'
+  | 'widgetState'
+  | 'theme'
+  | 'userAgent'
+  | 'locale'
+  | 'maxHeight'
+  | 'displayMode'
+  | 'safeArea'
+>;
+
+export type HostEvent = {
+  id: number;
+  time: string;
+  type: string;       // e.g. "callTool", "sendFollowUpMessage"
+  detail: unknown;
+};
+
+export type HostSnapshot = {
+  globals: OpenAIGlobals;
+  events: HostEvent[];
+};
+
+const MAX_EVENTS = 200;
+
+export const DEFAULT_GLOBALS: OpenAIGlobals = {
+  toolInput: {},
+  toolOutput: null,
+  toolResponseMetadata: null,
+  widgetState: null,
+  theme: 'light',
+  userAgent: {
+    device: { type: 'desktop' },
+    capabilities: { hover: true, touch: false },
+  },
+  locale: 'en-US',
+  maxHeight: 480,
+  displayMode: 'inline',
+  safeArea: { insets: { top: 0, bottom: 0, left: 0, right: 0 } },
+};
+
+/**
+ * The emulated host. React subscribes to it with useSyncExternalStore.
+ */
+export class EmulatorHost {
+  client: McpSseClient | null = null;
+
+  private snapshot: HostSnapshot = { globals: DEFAULT_GLOBALS, events: [] };
+  private readonly listeners = new Set<() => void>();
+  private frame: Window | null = null;
+  private nextEventId = 1;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /**
+   * Updates host globals and notifies the widget with `openai:set_globals`.
+   */
+  setGlobals(changes: Partial<OpenAIGlobals>) {
+    this.snapshot = { ...this.snapshot, globals: { ...this.snapshot.globals, ...changes } };
+    this.emit();
+
+    const frame = this.frame;
+    if (frame?.openai) {
+      Object.assign(frame.openai, changes);
+      frame.dispatchEvent(
+        new (frame as typeof window).CustomEvent('openai:set_globals', { detail: { globals: changes } })
+      );
+    }
+  }
+
+  /**
+   * Records something the widget did, shown in the emulator's event log.
+   */
+  log(type: string, detail: unknown) {
+    const event = { id: this.nextEventId++, time: new Date().toLocaleTimeString(), type, detail };
+    this.snapshot = { ...this.snapshot, events: [event, ...this.snapshot.events].slice(0, MAX_EVENTS) };
+    this.emit();
+  }
+
+  clearLog() {
+    this.snapshot = { ...this.snapshot, events: [] };
+    this.emit();
+  }
+
+  /**
+   * Calls a tool on the MCP server, as if the model did, and renders its result in the widget.
+   */
+  async runTool(name: string, args: Record<string, unknown>) {
+    const result = await this.callServer(name, args);
+    this.setGlobals({
+      toolInput: args,
+      toolOutput: result?.structuredContent ?? null,
+      toolResponseMetadata: result?._meta ?? null,
+      widgetState: null,
+    });
+    return result;
+  }
+
+  /**
+   * Installs window.openai into a widget frame. The frame calls this before loading the widget.
+   */
+  install(frame: Window) {
+    this.frame = frame;
+
+    const openai: OpenAI = {
+      ...this.snapshot.globals,
+
+      callTool: (name, args) => {
+        this.log('callTool', { name, args });
+        return this.callServer(name, args);
+      },
+
+      sendFollowUpMessage: async ({ prompt }) => {
+        this.log('sendFollowUpMessage', { prompt });
+      },
+
+      openExternal: ({ href }) => {
+        this.log('openExternal', { href });
+        window.open(href, '_blank', 'noopener');
+      },
+
+      requestDisplayMode: async ({ mode }) => {
+        this.log('requestDisplayMode', { mode });
+        this.setGlobals({ displayMode: mode });
+        return { mode };
+      },
+
+      setWidgetState: async (state) => {
+        this.log('setWidgetState', state);
+        this.snapshot = { ...this.snapshot, globals: { ...this.snapshot.globals, widgetState: state } };
+        openai.widgetState = state;
+        this.emit();
+      },
+
+      requestModal: async ({ title, params }) => {
+        this.log('requestModal', { title, params });
+      },
+
+      notifyIntrinsicHeight: (height) => {
+        this.log('notifyIntrinsicHeight', { height });
+      },
+    };
+
+    frame.openai = openai;
+  }
+
+  private async callServer(name: string, args: Record<string, unknown>) {
+    if (!this.client) {
+      const error = new Error('Not connected to the MCP server');
+      this.log('error', { name, message: error.message });
+      throw error;
+    }
+    try {
+      const result = await this.client.callTool(name, args);
+      this.log(result?.isError ? 'toolError' : 'toolResult', { name, result });
+      return result;
+    } catch (error) {
+      this.log('error', { name, message: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private emit() {
+    for (const listener of this.listeners) listener();
+  }
+}
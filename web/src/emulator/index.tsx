@@ -0,0 +1,18 @@
+/**
+ * DEVELOPMENT ONLY: entry point of the ChatGPT host emulator (emulator.html).
+ *
+ * Served by the Vite dev server at http://localhost:5173/emulator.html. Widgets run in an
+ * iframe with a mocked window.openai, and their tool calls go to the local MCP server
+ * (proxied through Vite, see vite.config.ts).
+ */
+
+import { createRoot } from 'react-dom/client';
+import { Emulator } from './Emulator';
+import { EmulatorHost } from './host';
+import '../index.css';
+
+// The widget frame installs window.openai from this host (see frame.ts)
+const host = new EmulatorHost();
+(window as Window & { __emulatorHost?: EmulatorHost }).__emulatorHost = host;
+
+createRoot(document.getElementById('root')!).render(<Emulator host={host} />);
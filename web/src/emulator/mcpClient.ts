@@ -0,0 +1,202 @@
+/**
+ * Minimal MCP client for the host emulator, speaking the legacy SSE transport of the local
+ * MCP server (GET /mcp opens the stream, messages are POSTed to the endpoint it announces).
+ *
+ * The stream is read with fetch instead of EventSource so an `Authorization` header can be
+ * sent when the server runs with AUTH_MODE=dev or introspection.
+ */
+
+type JsonRpcMessage = {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+};
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+export type McpTool = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: unknown;
+  _meta?: Record<string, unknown>;
+};
+
+export type McpClientOptions = {
+  url: string;                                          // SSE endpoint, e.g. /mcp
+  token?: string;                                       // Bearer token, when the server requires auth
+  onNotification?: (message: JsonRpcMessage) => void;   // Server notifications (e.g. list_changed)
+  onClose?: (error?: Error) => void;                    // Stream ended or failed
+};
+
+const PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * Splits an SSE buffer into complete events, returning the parsed events and the remainder.
+ */
+function parseSseEvents(buffer: string): { events: { event: string; data: string }[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+  const events = blocks.map((block) => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return { event, data: data.join('\n') };
+  });
+  return { events, rest };
+}
+
+/**
+ * Connection to the local MCP server. Call connect() before sending requests.
+ */
+export class McpSseClient {
+  private endpoint: string | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number | string, PendingRequest>();
+  private readonly abort = new AbortController();
+
+  constructor(private readonly options: McpClientOptions) {}
+
+  /**
+   * Opens the SSE stream, waits for the message endpoint and runs the initialize handshake.
+   */
+  async connect(): Promise<void> {
+    const response = await fetch(this.options.url, {
+      headers: { Accept: 'text/event-stream', ...this.authHeaders() },
+      signal: this.abort.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to open the SSE stream: HTTP ${response.status}`);
+    }
+
+    const endpoint = new Promise<void>((resolve, reject) => {
+      this.readStream(response.body!, resolve).catch((error) => {
+        reject(error);
+        this.fail(error);
+      });
+    });
+    await endpoint;
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'chatgpt-host-emulator', version: '1.0.0' },
+    });
+    await this.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  }
+
+  /**
+   * Sends a JSON-RPC request and resolves with its result.
+   */
+  async request(method: string, params?: unknown): Promise<any> {
+    const id = this.nextId++;
+    const result = new Promise<any>((resolve, reject) => this.pending.set(id, { resolve, reject }));
+    try {
+      await this.send({ jsonrpc: '2.0', id, method, params });
+    } catch (error) {
+      this.pending.delete(id);
+      throw error;
+    }
+    return result;
+  }
+
+  /**
+   * Calls a tool and resolves with the full CallToolResult, like window.openai.callTool.
+   */
+  callTool(name: string, args: Record<string, unknown> = {}) {
+    return this.request('tools/call', { name, arguments: args });
+  }
+
+  /**
+   * Lists the tools the server exposes.
+   */
+  async listTools(): Promise<McpTool[]> {
+    const result = await this.request('tools/list', {});
+    return result.tools ?? [];
+  }
+
+  /**
+   * Closes the stream and rejects pending requests.
+   */
+  close() {
+    this.abort.abort();
+    this.fail(new Error('Connection closed'));
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {};
+  }
+
+  private async send(message: JsonRpcMessage) {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      body: JSON.stringify(message),
+      signal: this.abort.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`MCP server rejected the message: HTTP ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * Reads SSE events until the stream ends. The first `endpoint` event calls onEndpoint.
+   */
+  private async readStream(body: ReadableStream<Uint8Array>, onEndpoint: () => void) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      const parsed = parseSseEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+      for (const { event, data } of parsed.events) {
+        if (event === 'endpoint') {
+          this.endpoint = new URL(data, new URL(this.options.url, window.location.href)).href;
+          onEndpoint();
+        } else if (event === 'message' && data) {
+          this.handleMessage(JSON.parse(data));
+        }
+      }
+    }
+
+    throw new Error('The MCP server closed the stream');
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    if (message.id !== undefined && !message.method) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      this.pending.delete(message.id);
+      if (message.error) pending.reject(new Error(message.error.message));
+      else pending.resolve(message.result);
+      return;
+    }
+    if (message.method && message.id === undefined) {
+      this.options.onNotification?.(message);
+    }
+  }
+
+  private fail(error: Error) {
+    for (const { reject } of this.pending.values()) reject(error);
+    const wasOpen = this.pending.size > 0 || this.endpoint !== null;
+    this.pending.clear();
+    this.endpoint = null;
+    if (wasOpen) this.options.onClose?.(this.abort.signal.aborted ? undefined : error);
+  }
+}
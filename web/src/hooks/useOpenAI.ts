@@ -4,49 +4,262 @@
  * These hooks provide a clean interface to the window.openai global object
  * that ChatGPT injects into your component iframe. They handle:
 * - useToolOutput() - Read data from MCP server tool response
+* - useValidatedToolOutput(schema) - Read and validate the tool response against a shared schema
 * - useToolInput() - Read parameters passed to your MCP tool
 * - useWidgetState(initialState) - Persist state visible to ChatGPT
+* - useVersionedWidgetState(definition) - Persist versioned, validated state with debounced writes
 * - useCallTool() - Call MCP server tools from component
+* - useToolQuery(name, args) - Call a tool to read data, with per-call state, dedup and retries
+* - useToolMutation(name) - Call a tool that changes data, with per-call state and typed errors
 * - useSendFollowUpMessage() - Send messages to ChatGPT conversation
 * - useRequestDisplayMode() - Request layout changes (inline/pip/fullscreen)
+* - useOpenAIGlobal(key) - Read a single global (theme, locale, maxHeight, ...)
 * - useOpenAIGlobals() - Access theme, device, and layout information
+* - useToolResponseMetadata() - Read the `_meta` of the tool response
+* - useWidgetSessionId() - Identify this widget instance across tool calls
+* - useView() / useViewParams() - Read how the widget is shown and the params of its modal
+* - useOpenExternal() - Open a link outside the widget
+* - useRequestModal() - Show the widget in a modal
+* - useIntrinsicHeight(ref) - Report the widget's height to ChatGPT as it changes
+* - useUploadFile() - Upload files the user picks and get a URL for them
+ *
+ * Hosts that lack a newer API get a fallback instead of an error: a new tab for links, local
+ * object URLs for files, and no-ops where the host has nothing to do.
+ *
+ * All of them read window.openai through one shared store: a single `openai:set_globals`
+ * listener notifies only the hooks whose key the event changed, and useSyncExternalStore keeps
+ * every component rendering the same values under concurrent rendering.
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ToolInput, ToolName, ToolOutput, ZodError, ZodType } from 'mcp-app-shared';
+import {
+  DEFAULT_WIDGET_STATE_DEBOUNCE_MS,
+  readWidgetState,
+  serializeWidgetState,
+  WidgetStateSizeError,
+  type WidgetStateDefinition,
+} from '../widgetState';
+
+/**
+ * The values ChatGPT exposes on window.openai. A change to any of them is announced with an
+ * `openai:set_globals` event.
+ */
+export type OpenAIGlobals = {
+  // Data from the MCP server
+  toolInput: any;
+  toolOutput: any;
+  toolResponseMetadata: any;
+  widgetState: any;
+
+  // Layout and theme information
+  theme: 'light' | 'dark';
+  userAgent: {
+    device: { type: 'mobile' | 'tablet' | 'desktop' | 'unknown' };
+    capabilities: { hover: boolean; touch: boolean };
+  };
+  locale: string;
+  maxHeight: number;
+  displayMode: 'pip' | 'inline' | 'fullscreen';
+  safeArea: {
+    insets: { top: number; bottom: number; left: number; right: number };
+  };
+
+  // Newer globals; older hosts may not set them
+  view?: OpenAIView | null;
+  widgetSessionId?: string | null;
+};
+
+/**
+ * How the widget is shown. `params` are those passed to requestModal when it opened the modal.
+ */
+export type OpenAIView = {
+  mode: 'inline' | 'modal';
+  params?: Record<string, unknown>;
+};
+
+/**
+ * Options of useRequestModal: the modal's title and the params the widget reads with useViewParams.
+ */
+export type RequestModalOptions = {
+  title?: string;
+  params?: Record<string, unknown>;
+};
+
+/**
+ * A file uploaded through useUploadFile. `fileId` is null when the host cannot upload files
+ * and `url` is a local object URL, usable for previews only.
+ */
+export type UploadedFile = {
+  fileId: string | null;
+  url: string;
+};
+
+/**
+ * Payload of `openai:set_globals`: the globals that changed, with their new values.
+ */
+export type SetGlobalsEvent = CustomEvent<{ globals: Partial<OpenAIGlobals> }>;
 
 // Type definitions for the window.openai API
 declare global {
   interface Window {
-    openai?: {
-      // Data from the MCP server
-      toolInput: any;
-      toolOutput: any;
-      toolResponseMetadata: any;
-      widgetState: any;
-      
-      // Layout and theme information
-      theme: 'light' | 'dark';
-      userAgent: {
-        device: { type: 'mobile' | 'tablet' | 'desktop' | 'unknown' };
-        capabilities: { hover: boolean; touch: boolean };
-      };
-      locale: string;
-      maxHeight: number;
-      displayMode: 'pip' | 'inline' | 'fullscreen';
-      safeArea: {
-        insets: { top: number; bottom: number; left: number; right: number };
-      };
-      
+    openai?: OpenAIGlobals & {
       // API methods
       callTool: (name: string, args: Record<string, unknown>) => Promise<any>;
       sendFollowUpMessage: (args: { prompt: string }) => Promise<void>;
       openExternal: (payload: { href: string }) => void;
       requestDisplayMode: (args: { mode: 'pip' | 'inline' | 'fullscreen' }) => Promise<{ mode: string }>;
       setWidgetState: (state: any) => Promise<void>;
+
+      // Newer API methods; older hosts may not provide them
+      requestModal?: (args: RequestModalOptions) => Promise<void>;
+      notifyIntrinsicHeight?: (height: number) => void;
+      uploadFile?: (file: File) => Promise<{ fileId: string }>;
+      getFileDownloadUrl?: (args: { fileId: string }) => Promise<{ downloadUrl: string }>;
     };
   }
+
+  interface WindowEventMap {
+    'openai:set_globals': SetGlobalsEvent;
+  }
+}
+
+/* ============================ Globals store ============================= */
+
+type GlobalKey = keyof OpenAIGlobals;
+
+// Fallbacks of useOpenAIGlobals() outside ChatGPT, shared so they keep their identity across renders
+const DEFAULT_USER_AGENT: OpenAIGlobals['userAgent'] = {
+  device: { type: 'unknown' },
+  capabilities: { hover: false, touch: false },
+};
+const DEFAULT_SAFE_AREA: OpenAIGlobals['safeArea'] = { insets: { top: 0, bottom: 0, left: 0, right: 0 } };
+const DEFAULT_VIEW: OpenAIView = { mode: 'inline' };
+
+// Retries of useToolQuery calls after a transport failure (mutations are not retried by default)
+const DEFAULT_QUERY_RETRY = 2;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Components subscribed to each global
+const globalListeners = new Map<GlobalKey, Set<() => void>>();
+let subscriptionCount = 0;
+
+/**
+ * Notifies the subscribers of the globals an `openai:set_globals` event changed. Hosts that send
+ * the event without a payload may have changed anything, so every subscriber re-reads its value.
+ */
+function handleSetGlobals(event: SetGlobalsEvent) {
+  const changed = event.detail?.globals;
+  const keys = changed ? (Object.keys(changed) as GlobalKey[]) : [...globalListeners.keys()];
+  for (const key of keys) {
+    globalListeners.get(key)?.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Subscribes to changes of one global. The window listener is attached while anything is subscribed.
+ */
+function subscribeGlobal(key: GlobalKey, listener: () => void): () => void {
+  if (subscriptionCount++ === 0) window.addEventListener('openai:set_globals', handleSetGlobals);
+
+  const listeners = globalListeners.get(key) ?? new Set();
+  globalListeners.set(key, listeners);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) globalListeners.delete(key);
+    if (--subscriptionCount === 0) window.removeEventListener('openai:set_globals', handleSetGlobals);
+  };
+}
+
+/**
+ * Hook to read a single window.openai global
+ * The component re-renders only when that global changes, not on every `openai:set_globals`
+ *
+ * @param key - Name of the global, e.g. 'theme', 'maxHeight' or 'toolOutput'
+ * @returns The current value, or undefined outside ChatGPT (no window.openai)
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const theme = useOpenAIGlobal('theme');
+ *   return <div className={theme === 'dark' ? 'dark-theme' : 'light-theme'}>...</div>;
+ * }
+ * ```
+ */
+export function useOpenAIGlobal<K extends GlobalKey>(key: K): OpenAIGlobals[K] | undefined {
+  const subscribe = useCallback((listener: () => void) => subscribeGlobal(key, listener), [key]);
+  const getSnapshot = useCallback(() => window.openai?.[key], [key]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Result of a tool called through useCallTool. `structuredContent` is typed from the tool's
+ * output schema in mcp-app-shared.
+ */
+export type CallToolResponse<N extends ToolName> = {
+  content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  structuredContent?: ToolOutput<N>;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+};
+
+/**
+ * Why a tool call failed:
+ * - `unavailable`: the host has no window.openai.callTool (e.g. outside ChatGPT)
+ * - `transport`: the call did not complete (network, host or server failure)
+ * - `tool`: the tool ran and returned a result with `isError: true`; see `result`
+ * - `aborted`: the call was abandoned (unmount, newer call, reset) before it finished
+ */
+export type ToolCallErrorCode = 'unavailable' | 'transport' | 'tool' | 'aborted';
+
+/**
+ * Thrown by useToolQuery and useToolMutation calls that fail, and stored in their `error`.
+ */
+export class ToolCallError<N extends ToolName = ToolName> extends Error {
+  constructor(
+    readonly code: ToolCallErrorCode,
+    readonly tool: N,
+    message: string,
+    readonly result: CallToolResponse<N> | null = null,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'ToolCallError';
+  }
 }
 
+/**
+ * State of the latest call made by useToolQuery or useToolMutation. `data` and `result` are
+ * kept from the last successful call while a new one is loading.
+ */
+export type ToolCallState<N extends ToolName> = {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  data: ToolOutput<N> | undefined;          // structuredContent of the result
+  result: CallToolResponse<N> | undefined;
+  error: ToolCallError<N> | null;
+};
+
+/**
+ * Retry settings of useToolQuery and useToolMutation. Only `transport` failures are retried:
+ * a tool that returned an error would most likely return it again.
+ */
+export type ToolRetryOptions = {
+  retry?: number;                              // Retries after the first attempt
+  retryDelay?: (attempt: number) => number;    // Delay in ms before retry `attempt` (1-based)
+};
+
+export type ToolQueryOptions = ToolRetryOptions & {
+  enabled?: boolean;   // false skips the call until it becomes true (default true)
+  dedupe?: boolean;    // Share the result with identical calls in flight (default true)
+};
+
+export type ToolMutationOptions<N extends ToolName> = ToolRetryOptions & {
+  onSuccess?: (data: ToolOutput<N> | undefined, args: ToolInput<N>) => void;
+  onError?: (error: ToolCallError<N>, args: ToolInput<N>) => void;
+};
+
 /**
  * Hook to read data from the MCP server tool output
  * This is the main way to get data that your MCP server sends to the component
@@ -61,25 +274,50 @@ declare global {
  *   return <div>{todos.map(todo => <div key={todo.id}>{todo.title}</div>)}</div>;
  * }
  * ```
+ *
+ * Pass the tool name to type the output from its schema (types only, no validation):
+ * ```tsx
+ * const output = useToolOutput<'show-todo'>();  // ToolOutput<'show-todo'> | null
+ * ```
  */
+export function useToolOutput(): any;
+export function useToolOutput<N extends ToolName>(): ToolOutput<N> | null;
 export function useToolOutput() {
-  const [toolOutput, setToolOutput] = useState(window.openai?.toolOutput || null);
-  
-  useEffect(() => {
-    // Listen for updates to the tool output
-    const handleGlobalUpdate = () => {
-      setToolOutput(window.openai?.toolOutput || null);
-    };
-    
-    // Listen for the custom event that ChatGPT fires when globals change
-    window.addEventListener('openai:set_globals', handleGlobalUpdate);
-    
-    return () => {
-      window.removeEventListener('openai:set_globals', handleGlobalUpdate);
-    };
-  }, []);
-  
-  return toolOutput;
+  return useOpenAIGlobal('toolOutput') || null;
+}
+
+/**
+ * Hook to read the tool output and validate it against a schema from mcp-app-shared
+ * (e.g. `toolOutputSchema('show-todo')` or a widget's own schema).
+ *
+ * @returns The parsed output (null when missing or invalid) and the validation error, if any
+ *
+ * Example usage:
+ * ```tsx
+ * const showTodoOutput = toolOutputSchema('show-todo');  // Create schemas outside components
+ *
+ * function MyComponent() {
+ *   const { output, error } = useValidatedToolOutput(showTodoOutput);
+ *   if (error) return <div>Unexpected data from the server: {error.message}</div>;
+ *   return <div>{output?.lists.length ?? 0} lists</div>;
+ * }
+ * ```
+ */
+export function useValidatedToolOutput<T>(schema: ZodType<T, any, any>): {
+  output: T | null;
+  error: ZodError | null;
+} {
+  const toolOutput = useToolOutput();
+
+  return useMemo(() => {
+    if (toolOutput == null) return { output: null, error: null };
+    const result = schema.safeParse(toolOutput);
+    if (!result.success) {
+      console.error('Tool output does not match its schema:', result.error.issues);
+      return { output: null, error: result.error };
+    }
+    return { output: result.data, error: null };
+  }, [toolOutput, schema]);
 }
 
 /**
@@ -96,23 +334,16 @@ export function useToolOutput() {
  *   return <div>Message: {message}</div>;
  * }
  * ```
+ *
+ * Pass the tool name to type the input from its schema:
+ * ```tsx
+ * const input = useToolInput<'show-todo'>();  // ToolInput<'show-todo'> | null
+ * ```
  */
+export function useToolInput(): any;
+export function useToolInput<N extends ToolName>(): ToolInput<N> | null;
 export function useToolInput() {
-  const [toolInput, setToolInput] = useState(window.openai?.toolInput || null);
-  
-  useEffect(() => {
-    const handleGlobalUpdate = () => {
-      setToolInput(window.openai?.toolInput || null);
-    };
-    
-    window.addEventListener('openai:set_globals', handleGlobalUpdate);
-    
-    return () => {
-      window.removeEventListener('openai:set_globals', handleGlobalUpdate);
-    };
-  }, []);
-  
-  return toolInput;
+  return useOpenAIGlobal('toolInput') || null;
 }
 
 /**
@@ -138,47 +369,133 @@ export function useToolInput() {
  * ```
  */
 export function useWidgetState<T>(initialState: T) {
-  const [state, setState] = useState<T>(() => {
-    // Initialize with persisted state if available, otherwise use initial state
-    return window.openai?.widgetState || initialState;
-  });
-  
-  useEffect(() => {
-    const handleGlobalUpdate = () => {
-      if (window.openai?.widgetState !== undefined) {
-        setState(window.openai.widgetState);
-      }
-    };
-    
-    window.addEventListener('openai:set_globals', handleGlobalUpdate);
-    
-    return () => {
-      window.removeEventListener('openai:set_globals', handleGlobalUpdate);
-    };
-  }, []);
+  const hostState = useOpenAIGlobal('widgetState');
+
+  // Initialize with persisted state if available, otherwise use initial state
+  const [state, setState] = useState<T>(() => hostState || initialState);
+
+  // Adopt state the host pushes later (e.g. a new tool result resetting it), during render
+  // rather than in an effect so the component never renders the outdated state
+  const [lastHostState, setLastHostState] = useState(hostState);
+  if (hostState !== lastHostState) {
+    setLastHostState(hostState);
+    if (hostState !== undefined) setState(hostState);
+  }
   
-  // Custom setter that persists state to ChatGPT
+  // The newest state, including updates made since the last render, so functional updates chain
+  const latestState = useRef(state);
+  latestState.current = state;
+
+  // Custom setter that persists state to ChatGPT. The host is written here rather than in the
+  // state updater, which React may run twice or defer
   const setPersistedState = useCallback((newState: T | ((prev: T) => T)) => {
-    setState(prevState => {
-      const resolvedState = typeof newState === 'function' 
-        ? (newState as (prev: T) => T)(prevState) 
-        : newState;
-      
-      // Persist to ChatGPT - this makes the state visible to the model
-      window.openai?.setWidgetState(resolvedState);
-      
-      return resolvedState;
-    });
-  }, []); // Remove state dependency to prevent infinite loop
+    const resolvedState = typeof newState === 'function' 
+      ? (newState as (prev: T) => T)(latestState.current) 
+      : newState;
+    latestState.current = resolvedState;
+    setState(resolvedState);
+
+    // Persist to ChatGPT - this makes the state visible to the model
+    window.openai?.setWidgetState(resolvedState);
+  }, []);
   
   return [state, setPersistedState] as const;
 }
 
+/**
+ * Hook to manage widget state declared with defineWidgetState (see widgetState.ts)
+ * Like useWidgetState, but the state survives changes to its shape: what the host has saved is
+ * migrated to the current version and validated, or replaced by the initial state. Changes are
+ * written to the host once they settle (after `debounceMs`), when the component unmounts and when
+ * the page is hidden, rather than on every update. State over `maxBytes` is kept locally, not
+ * written, and reported in `error`.
+ *
+ * @param definition - The widget's state definition; declare it outside components
+ * @returns [state, setState, { error, flush }] - `flush()` writes pending changes right away
+ *
+ * Example usage:
+ * ```tsx
+ * const filterState = defineWidgetState({
+ *   version: 1,
+ *   schema: filterStateSchema,  // From mcp-app-shared: { filter: 'all' | 'open' | 'done' }
+ *   initialState: () => ({ filter: 'all' as const }),
+ * });
+ *
+ * function MyComponent() {
+ *   const [state, setState] = useVersionedWidgetState(filterState);
+ *   return <button onClick={() => setState({ filter: 'open' })}>Open ({state.filter})</button>;
+ * }
+ * ```
+ */
+export function useVersionedWidgetState<T extends object>(definition: WidgetStateDefinition<T>) {
+  const hostState = useOpenAIGlobal('widgetState');
+  const [state, setState] = useState<T>(() => readWidgetState(definition, hostState));
+  const [error, setError] = useState<WidgetStateSizeError | null>(null);
+
+  // Whether the state has changes the host has not received, and the JSON last written, which
+  // the host may send back as an update
+  const dirty = useRef(false);
+  const written = useRef<string | null>(null);
+  const latestState = useRef(state);
+  latestState.current = state;
+
+  // Adopt state the host pushes later (e.g. reset by a new tool result), but not the echo of our
+  // own write, which could be older than changes made since
+  const [lastHostState, setLastHostState] = useState(hostState);
+  if (hostState !== lastHostState) {
+    setLastHostState(hostState);
+    if (hostState !== undefined && JSON.stringify(hostState) !== written.current) {
+      dirty.current = false;
+      setState(readWidgetState(definition, hostState));
+    }
+  }
+
+  const flush = useCallback(() => {
+    if (!dirty.current) return;
+    dirty.current = false;
+    try {
+      const { stored, json } = serializeWidgetState(definition, latestState.current);
+      written.current = json;
+      setError(null);
+      window.openai?.setWidgetState(stored)?.catch((cause) => console.error('Failed to save widget state:', cause));
+    } catch (cause) {
+      if (!(cause instanceof WidgetStateSizeError)) throw cause;
+      console.warn(cause.message);
+      setError(cause);
+    }
+  }, [definition]);
+
+  const setVersionedState = useCallback((next: T | ((prev: T) => T)) => {
+    dirty.current = true;
+    setState(next);
+  }, []);
+
+  // Write once changes settle
+  useEffect(() => {
+    if (!dirty.current) return;
+    const timer = setTimeout(flush, definition.debounceMs ?? DEFAULT_WIDGET_STATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [state, flush, definition.debounceMs]);
+
+  // Write pending changes before the widget goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  return [state, setVersionedState, { error, flush }] as const;
+}
+
 /**
  * Hook to call MCP server tools from the component
  * This allows your component to trigger server actions like refreshing data
  * 
- * @returns Object with callTool function and loading state
+ * @returns Object with callTool function and loading state. Tool names, arguments and
+ * `structuredContent` of the result are typed from the schemas in mcp-app-shared.
+ * For per-call state, retries and typed errors, use useToolQuery or useToolMutation.
  * 
  * Example usage:
  * ```tsx
@@ -187,7 +504,7 @@ export function useWidgetState<T>(initialState: T) {
  *   
  *   const refreshData = async () => {
  *     try {
- *       const result = await callTool('refresh-todos', { userId: '123' });
+ *       const result = await callTool('refresh-todos', { listId: 'main-list' });
  *       console.log('Refreshed:', result);
  *     } catch (error) {
  *       console.error('Failed to refresh:', error);
@@ -203,7 +520,10 @@ export function useWidgetState<T>(initialState: T) {
 export function useCallTool() {
   const [isLoading, setIsLoading] = useState(false);
   
-  const callTool = useCallback(async (name: string, args: Record<string, unknown> = {}) => {
+  const callTool = useCallback(async <N extends ToolName>(
+    name: N,
+    args: ToolInput<N>
+  ): Promise<CallToolResponse<N>> => {
     if (!window.openai?.callTool) {
       throw new Error('window.openai.callTool is not available');
     }
@@ -220,6 +540,247 @@ export function useCallTool() {
   return { callTool, isLoading };
 }
 
+/* ============================== Tool calls ============================== */
+
+const IDLE_CALL_STATE = { status: 'idle', data: undefined, result: undefined, error: null } as const;
+
+// Query calls in flight, by tool name and arguments, shared by identical calls
+const inFlightCalls = new Map<string, Promise<CallToolResponse<any>>>();
+
+/**
+ * JSON with object keys sorted, so arguments that differ only in key order get the same key.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val
+  );
+}
+
+/**
+ * Exponential backoff with jitter: about 0.5s, 1s, 2s, ... up to 30s.
+ */
+function defaultRetryDelay(attempt: number): number {
+  const delay = Math.min(500 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function abortedError(tool: ToolName): ToolCallError {
+  return new ToolCallError('aborted', tool, `Call to "${tool}" was aborted`);
+}
+
+/**
+ * Waits for a promise unless the signal aborts first. The call itself goes on: window.openai
+ * cannot cancel it, but its result is no longer delivered.
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal, tool: ToolName): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortedError(tool));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortedError(tool));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Calls a tool once. Results with `isError: true` are thrown as ToolCallError with code `tool`.
+ */
+async function invokeTool<N extends ToolName>(name: N, args: ToolInput<N>): Promise<CallToolResponse<N>> {
+  if (!window.openai?.callTool) {
+    throw new ToolCallError('unavailable', name, 'window.openai.callTool is not available');
+  }
+
+  let result: CallToolResponse<N>;
+  try {
+    result = await window.openai.callTool(name, args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ToolCallError('transport', name, `Call to "${name}" failed: ${message}`, null, { cause: error });
+  }
+
+  if (result?.isError) {
+    const text = result.content?.flatMap((part) => (part.type === 'text' && part.text ? [part.text] : [])).join('\n');
+    throw new ToolCallError('tool', name, text || `Tool "${name}" returned an error`, result);
+  }
+  return result;
+}
+
+/**
+ * Calls a tool with retries after transport failures, optionally sharing the call with identical
+ * ones in flight.
+ */
+async function callToolWithRetry<N extends ToolName>(
+  name: N,
+  args: ToolInput<N>,
+  { retry = 0, retryDelay = defaultRetryDelay, dedupe, signal }: ToolRetryOptions & { dedupe: boolean; signal: AbortSignal }
+): Promise<CallToolResponse<N>> {
+  const call = (): Promise<CallToolResponse<N>> => {
+    if (!dedupe) return invokeTool(name, args);
+
+    const key = `${name}\u0000${stableStringify(args)}`;
+    let pending = inFlightCalls.get(key);
+    if (!pending) {
+      pending = invokeTool(name, args).finally(() => inFlightCalls.delete(key));
+      inFlightCalls.set(key, pending);
+    }
+    return pending;
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await abortable(call(), signal, name);
+    } catch (error) {
+      const retryable = error instanceof ToolCallError && error.code === 'transport';
+      if (!retryable || attempt >= retry) throw error;
+      await abortable(new Promise((resolve) => setTimeout(resolve, retryDelay(attempt + 1))), signal, name);
+    }
+  }
+}
+
+function toToolCallError<N extends ToolName>(error: unknown, name: N): ToolCallError<N> {
+  if (error instanceof ToolCallError) return error as ToolCallError<N>;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ToolCallError('transport', name, message, null, { cause: error });
+}
+
+/**
+ * Hook to call a tool that reads data, when the component renders and whenever the arguments change
+ * Each component gets its own loading, error and data state. Identical calls in flight share one
+ * request, transport failures are retried with backoff, and when the arguments change while a call
+ * is running, only the newest call's result is kept.
+ *
+ * @param name - Tool name
+ * @param args - Tool arguments; compared by value, so an inline object literal is fine
+ * @param options - `enabled`, `dedupe`, `retry` (default 2) and `retryDelay`
+ * @returns The call state (`status`, `data`, `result`, `error`), `isLoading`, and `refetch`
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent({ listId }: { listId: string }) {
+ *   const { data, error, isLoading, refetch } = useToolQuery('refresh-todos', { listId });
+ *
+ *   if (error?.code === 'tool') return <div>The server refused: {error.message}</div>;
+ *   if (error) return <button onClick={refetch}>Retry</button>;
+ *   return <div>{isLoading ? 'Loading...' : `${data?.lists.length ?? 0} lists`}</div>;
+ * }
+ * ```
+ */
+export function useToolQuery<N extends ToolName>(name: N, args: ToolInput<N>, options: ToolQueryOptions = {}) {
+  const { enabled = true } = options;
+  const argsKey = stableStringify(args);
+
+  // The latest arguments and options, read when a call starts
+  const latest = useRef({ args, options });
+  latest.current = { args, options };
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const [state, setState] = useState<ToolCallState<N>>(IDLE_CALL_STATE);
+
+  const refetch = useCallback(async () => {
+    // A newer call makes the running one stale
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const { args, options } = latest.current;
+    setState((prev) => ({ ...prev, status: 'loading', error: null }));
+    try {
+      const result = await callToolWithRetry(name, args, {
+        retry: options.retry ?? DEFAULT_QUERY_RETRY,
+        retryDelay: options.retryDelay,
+        dedupe: options.dedupe ?? true,
+        signal: controller.signal,
+      });
+      setState({ status: 'success', data: result.structuredContent, result, error: null });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setState((prev) => ({ ...prev, status: 'error', error: toToolCallError(error, name) }));
+    }
+  }, [name]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refetch();
+    return () => controllerRef.current?.abort();
+  }, [refetch, argsKey, enabled]);
+
+  return { ...state, isLoading: state.status === 'loading', refetch };
+}
+
+/**
+ * Hook to call a tool that changes data, e.g. from a button
+ * Each component gets its own loading, error and data state. Calls are never deduplicated and
+ * only retried when `retry` is set, since the tool may not be safe to repeat. When calls overlap,
+ * the state follows the newest one.
+ *
+ * @param name - Tool name
+ * @param options - `onSuccess`, `onError`, `retry` (default 0) and `retryDelay`
+ * @returns The call state, `isLoading`, `mutate` (errors go to `error`), `mutateAsync` (returns
+ * the output, throws ToolCallError) and `reset`
+ *
+ * Example usage:
+ * ```tsx
+ * function AddTodo({ listId }: { listId: string }) {
+ *   const { mutate, isLoading, error } = useToolMutation('add-todo');
+ *
+ *   return (
+ *     <>
+ *       <button onClick={() => mutate({ listId, title: 'New todo' })} disabled={isLoading}>Add</button>
+ *       {error && <p>{error.message}</p>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useToolMutation<N extends ToolName>(name: N, options: ToolMutationOptions<N> = {}) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const [state, setState] = useState<ToolCallState<N>>(IDLE_CALL_STATE);
+
+  // Results of calls that finish after the component unmounted are dropped
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const mutateAsync = useCallback(async (args: ToolInput<N>): Promise<ToolOutput<N> | undefined> => {
+    // The running call was sent and may still change data, so it is not aborted;
+    // it only stops updating the state
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const isLatest = () => controllerRef.current === controller;
+
+    setState((prev) => ({ ...prev, status: 'loading', error: null }));
+    try {
+      const { retry = 0, retryDelay } = optionsRef.current;
+      const result = await callToolWithRetry(name, args, { retry, retryDelay, dedupe: false, signal: controller.signal });
+      if (isLatest()) setState({ status: 'success', data: result.structuredContent, result, error: null });
+      optionsRef.current.onSuccess?.(result.structuredContent, args);
+      return result.structuredContent;
+    } catch (caught) {
+      const error = toToolCallError(caught, name);
+      if (isLatest() && !controller.signal.aborted) setState((prev) => ({ ...prev, status: 'error', error }));
+      if (error.code !== 'aborted') optionsRef.current.onError?.(error, args);
+      throw error;
+    }
+  }, [name]);
+
+  const mutate = useCallback((args: ToolInput<N>) => {
+    mutateAsync(args).catch(() => {
+      // Reported through `error` and onError
+    });
+  }, [mutateAsync]);
+
+  // Back to idle; a call still running no longer updates the state
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(IDLE_CALL_STATE);
+  }, []);
+
+  return { ...state, isLoading: state.status === 'loading', mutate, mutateAsync, reset };
+}
+
 /**
  * Hook to send follow-up messages to ChatGPT
  * This allows your component to insert messages into the conversation
@@ -282,6 +843,7 @@ export function useRequestDisplayMode() {
 /**
  * Hook to get theme and layout information
  * This provides access to ChatGPT's theme, device info, and layout constraints
+ * The component re-renders when any of them changes; use useOpenAIGlobal('theme') to follow one
  * 
  * @returns Object with theme, device, and layout information
  * 
@@ -300,35 +862,255 @@ export function useRequestDisplayMode() {
  * ```
  */
 export function useOpenAIGlobals() {
-  const [globals, setGlobals] = useState(() => ({
-    theme: window.openai?.theme || 'light',
-    userAgent: window.openai?.userAgent || { device: { type: 'unknown' }, capabilities: { hover: false, touch: false } },
-    locale: window.openai?.locale || 'en',
-    maxHeight: window.openai?.maxHeight || 400,
-    displayMode: window.openai?.displayMode || 'inline',
-    safeArea: window.openai?.safeArea || { insets: { top: 0, bottom: 0, left: 0, right: 0 } }
-  }));
-  
+  const theme = useOpenAIGlobal('theme') || 'light';
+  const userAgent = useOpenAIGlobal('userAgent') || DEFAULT_USER_AGENT;
+  const locale = useOpenAIGlobal('locale') || 'en';
+  const maxHeight = useOpenAIGlobal('maxHeight') || 400;
+  const displayMode = useOpenAIGlobal('displayMode') || 'inline';
+  const safeArea = useOpenAIGlobal('safeArea') || DEFAULT_SAFE_AREA;
+
+  return useMemo(
+    () => ({ theme, userAgent, locale, maxHeight, displayMode, safeArea }),
+    [theme, userAgent, locale, maxHeight, displayMode, safeArea]
+  );
+}
+
+/**
+ * Hook to read the `_meta` of the tool response that rendered the widget
+ * The server can put data here for the widget only; unlike `structuredContent`, the model never sees it
+ *
+ * @returns The response's `_meta`, or null outside ChatGPT
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const metadata = useToolResponseMetadata();
+ *   const requestId = metadata?.requestId;
+ *   return <div>Request: {String(requestId ?? 'none')}</div>;
+ * }
+ * ```
+ */
+export function useToolResponseMetadata(): Record<string, any> | null {
+  return useOpenAIGlobal('toolResponseMetadata') || null;
+}
+
+/**
+ * Hook to identify this widget instance
+ * ChatGPT keeps the same ID while the model's follow-up tool calls update the same widget, so the
+ * server can tie its state to it
+ *
+ * @returns The widget session ID, from window.openai or the `openai/widgetSessionId` field of the
+ * tool response's `_meta`, or null if the host provides neither
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const widgetSessionId = useWidgetSessionId();
+ *   // Keep a draft per widget instance rather than one per page
+ *   const draftKey = `draft:${widgetSessionId ?? 'default'}`;
+ *   return <Editor draftKey={draftKey} />;
+ * }
+ * ```
+ */
+export function useWidgetSessionId(): string | null {
+  const widgetSessionId = useOpenAIGlobal('widgetSessionId');
+  const fromMetadata = useToolResponseMetadata()?.['openai/widgetSessionId'];
+  return widgetSessionId || (typeof fromMetadata === 'string' ? fromMetadata : null);
+}
+
+/**
+ * Hook to read how the widget is shown: inline in the conversation, or in a modal opened with
+ * useRequestModal
+ *
+ * @returns The current view; `{ mode: 'inline' }` when the host does not report one
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const view = useView();
+ *   return view.mode === 'modal' ? <Details /> : <Summary />;
+ * }
+ * ```
+ */
+export function useView(): OpenAIView {
+  return useOpenAIGlobal('view') || DEFAULT_VIEW;
+}
+
+/**
+ * Hook to read the params passed to useRequestModal, in the widget instance shown in the modal
+ *
+ * @returns The modal's params, or null inline and in hosts without modals
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const params = useViewParams<{ todoId: string }>();
+ *   return params ? <TodoDetails id={params.todoId} /> : <TodoList />;
+ * }
+ * ```
+ */
+export function useViewParams<T extends Record<string, unknown> = Record<string, unknown>>(): T | null {
+  return (useView().params as T | undefined) ?? null;
+}
+
+/**
+ * Hook to open links outside the widget
+ * ChatGPT shows the link to the user before leaving the conversation; outside ChatGPT, or in hosts
+ * without openExternal, the link opens in a new tab
+ *
+ * @returns Function that opens a URL
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const openExternal = useOpenExternal();
+ *   return <button onClick={() => openExternal('https://example.com/docs')}>Docs</button>;
+ * }
+ * ```
+ */
+export function useOpenExternal() {
+  return useCallback((href: string) => {
+    if (window.openai?.openExternal) {
+      window.openai.openExternal({ href });
+      return;
+    }
+    window.open(href, '_blank', 'noopener,noreferrer');
+  }, []);
+}
+
+/**
+ * Hook to show the widget in a modal over the conversation
+ * The host renders another instance of the widget there; it reads `params` with useViewParams
+ *
+ * @returns Function that requests the modal. It resolves to false if the host cannot show modals,
+ * so the component can show the content inline instead
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const requestModal = useRequestModal();
+ *   const [expanded, setExpanded] = useState(false);
+ *
+ *   const showDetails = async () => {
+ *     const opened = await requestModal({ title: 'Todo details', params: { todoId: '42' } });
+ *     if (!opened) setExpanded(true);
+ *   };
+ *
+ *   return <button onClick={showDetails}>Details</button>;
+ * }
+ * ```
+ */
+export function useRequestModal() {
+  return useCallback(async (options: RequestModalOptions = {}): Promise<boolean> => {
+    if (!window.openai?.requestModal) return false;
+
+    await window.openai.requestModal(options);
+    return true;
+  }, []);
+}
+
+/**
+ * Hook to keep ChatGPT informed of the widget's height
+ * Observes the element with a ResizeObserver and reports its height with notifyIntrinsicHeight
+ * whenever it changes, so the iframe grows and shrinks with the content instead of scrolling.
+ * Does nothing in hosts without notifyIntrinsicHeight or browsers without ResizeObserver.
+ *
+ * @returns Callback ref for the widget's outermost element; the observer follows the element
+ * even when it renders later (e.g. after a loading state) or is replaced
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const ref = useIntrinsicHeight();
+ *   return <div ref={ref}>...</div>;
+ * }
+ * ```
+ */
+export function useIntrinsicHeight(): (element: HTMLElement | null) => void {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+
   useEffect(() => {
-    const handleGlobalUpdate = () => {
-      if (window.openai) {
-        setGlobals({
-          theme: window.openai.theme || 'light',
-          userAgent: window.openai.userAgent || { device: { type: 'unknown' }, capabilities: { hover: false, touch: false } },
-          locale: window.openai.locale || 'en',
-          maxHeight: window.openai.maxHeight || 400,
-          displayMode: window.openai.displayMode || 'inline',
-          safeArea: window.openai.safeArea || { insets: { top: 0, bottom: 0, left: 0, right: 0 } }
-        });
-      }
-    };
-    
-    window.addEventListener('openai:set_globals', handleGlobalUpdate);
-    
-    return () => {
-      window.removeEventListener('openai:set_globals', handleGlobalUpdate);
-    };
+    if (!element || !window.openai?.notifyIntrinsicHeight || typeof ResizeObserver === 'undefined') return;
+
+    // ResizeObserver also fires for width-only changes; only new heights are reported
+    let reportedHeight: number | null = null;
+    const observer = new ResizeObserver(() => {
+      const height = Math.ceil(element.getBoundingClientRect().height);
+      if (height === reportedHeight) return;
+      reportedHeight = height;
+      window.openai?.notifyIntrinsicHeight?.(height);
+    });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [element]);
+
+  return setElement;
+}
+
+/**
+ * Hook to upload files the user picked (e.g. from an `<input type="file">`)
+ * ChatGPT stores the file and returns an ID that tools and the model can refer to. In hosts
+ * without uploads the file stays in the widget: `fileId` is null and `url` is a local object URL,
+ * valid until the next upload or until the component unmounts (the hook then revokes it).
+ *
+ * @returns Object with the uploadFile and getFileUrl functions, the loading state, and whether
+ * the host supports uploads
+ *
+ * Example usage:
+ * ```tsx
+ * function MyComponent() {
+ *   const { uploadFile, isUploading } = useUploadFile();
+ *   const [image, setImage] = useState<string | null>(null);
+ *
+ *   const onChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+ *     const file = event.target.files?.[0];
+ *     if (file) setImage((await uploadFile(file)).url);
+ *   };
+ *
+ *   return <input type="file" accept="image/*" onChange={onChange} disabled={isUploading} />;
+ * }
+ * ```
+ */
+export function useUploadFile() {
+  const [isUploading, setIsUploading] = useState(false);
+  // The object URL handed out last; it is revoked when replaced and on unmount
+  const objectUrl = useRef<string | null>(null);
+
+  const localUrl = useCallback((file: File): string => {
+    if (objectUrl.current) URL.revokeObjectURL(objectUrl.current);
+    objectUrl.current = URL.createObjectURL(file);
+    return objectUrl.current;
   }, []);
-  
-  return globals;
+
+  useEffect(() => () => {
+    if (objectUrl.current) URL.revokeObjectURL(objectUrl.current);
+    objectUrl.current = null;
+  }, []);
+
+  const uploadFile = useCallback(async (file: File): Promise<UploadedFile> => {
+    const openai = window.openai;
+    if (!openai?.uploadFile) {
+      return { fileId: null, url: localUrl(file) };
+    }
+
+    setIsUploading(true);
+    try {
+      const { fileId } = await openai.uploadFile(file);
+      const url = openai.getFileDownloadUrl
+        ? (await openai.getFileDownloadUrl({ fileId })).downloadUrl
+        : localUrl(file);
+      return { fileId, url };
+    } finally {
+      setIsUploading(false);
+    }
+  }, [localUrl]);
+
+  // Download URL of a file uploaded earlier, e.g. one whose ID is kept in the widget state
+  const getFileUrl = useCallback(async (fileId: string): Promise<string | null> => {
+    if (!window.openai?.getFileDownloadUrl) return null;
+    return (await window.openai.getFileDownloadUrl({ fileId })).downloadUrl;
+  }, []);
+
+  return { uploadFile, getFileUrl, isUploading, isSupported: Boolean(window.openai?.uploadFile) };
 }
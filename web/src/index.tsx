@@ -10,6 +10,7 @@
  * - ChatGPT receives pre-built assets from the MCP server
  * 
  * To test with ChatGPT: run "pnpm run build" then "pnpm run server"
+ * To test with a mocked ChatGPT host and the real MCP server: open /emulator.html
  */
 
 import { createRoot } from 'react-dom/client';
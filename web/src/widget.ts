@@ -0,0 +1,42 @@
+/**
+ * Widget metadata declared next to each component.
+ *
+ * Every component in src/components/<name>/ can export a `meta.ts` built with `defineWidgetMeta()`.
+ * The build script copies it into dist/manifest.json, and the MCP server turns it into the
+ * `openai/widget*` `_meta` fields of the `ui://widget/<name>.html` resource.
+ */
+
+export type WidgetMeta = {
+  // Shown to the model when the widget renders, so it avoids repeating what is on screen
+  description: string;
+  // Render inside a rounded border and shadow instead of full-bleed
+  prefersBorder?: boolean;
+  // Sandbox subdomain for the HTML; also the base URL for external links
+  domain?: string;
+  // Domains the widget may reach, mapped to the iframe CSP
+  csp?: {
+    connectDomains?: string[];   // connect-src
+    resourceDomains?: string[];  // style-src, img-src, font-src, media-src etc.
+  };
+  // Status text ChatGPT shows while the tool that opens the widget runs, and once it has
+  invoking?: string;
+  invoked?: string;
+  // Tools whose results the widget renders; the server points their "openai/outputTemplate" at it
+  tools?: string[];
+};
+
+/**
+ * Identity helper that gives component `meta.ts` files type checking.
+ *
+ * Example usage:
+ * ```ts
+ * export default defineWidgetMeta({
+ *   description: "A todo list widget",
+ *   prefersBorder: true,
+ *   tools: ["show-todo"],
+ * });
+ * ```
+ */
+export function defineWidgetMeta(meta: WidgetMeta): WidgetMeta {
+  return meta;
+}
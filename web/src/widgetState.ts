@@ -0,0 +1,142 @@
+/**
+ * Versioned widget state.
+ *
+ * window.openai.widgetState outlives the widget code that wrote it: reopening an old conversation
+ * hands today's widget the state an older build saved. A widget declares its state with
+ * `defineWidgetState()`: the current version, a schema, and migrations from older versions.
+ * useVersionedWidgetState (hooks/useOpenAI.ts) stores the version next to the state, migrates
+ * and validates what it reads, and falls back to the initial state when it cannot.
+ *
+ * State saved by a widget that did not declare a version counts as version 0.
+ */
+
+import type { ZodType } from 'mcp-app-shared';
+
+/**
+ * Migrations by the version they produce: `migrations[2]` turns version 1 state into version 2.
+ */
+export type WidgetStateMigrations = Record<number, (state: any) => unknown>;
+
+export type WidgetStateDefinition<T extends object> = {
+  // Current version, from 1. Increase it and add a migration whenever the shape changes
+  version: number;
+  // Shape of the current version; state read from the host is validated against it
+  schema: ZodType<T, any, any>;
+  // State when there is none, or it cannot be migrated
+  initialState: () => T;
+  migrations?: WidgetStateMigrations;
+  // Largest state written, as UTF-8 JSON (default DEFAULT_WIDGET_STATE_MAX_BYTES)
+  maxBytes?: number;
+  // Quiet time after the last change before the state is written (default DEFAULT_WIDGET_STATE_DEBOUNCE_MS)
+  debounceMs?: number;
+};
+
+/**
+ * What is written to window.openai.widgetState: the state with its version.
+ */
+export type StoredWidgetState<T extends object> = T & { __version: number };
+
+// The host sends widget state to the model with the conversation and limits its size. This is a
+// conservative default; set maxBytes when a host documents its own limit
+export const DEFAULT_WIDGET_STATE_MAX_BYTES = 16 * 1024;
+
+export const DEFAULT_WIDGET_STATE_DEBOUNCE_MS = 500;
+
+/**
+ * Thrown (and reported by useVersionedWidgetState) when the state is too large to write.
+ */
+export class WidgetStateSizeError extends Error {
+  constructor(
+    readonly bytes: number,
+    readonly maxBytes: number
+  ) {
+    super(`Widget state is ${bytes} bytes, more than the ${maxBytes} allowed; it was not saved`);
+    this.name = 'WidgetStateSizeError';
+  }
+}
+
+/**
+ * Declares a widget's state. Checks that every version up to the current one has a migration.
+ *
+ * Example usage:
+ * ```ts
+ * // notesStateSchema (in mcp-app-shared): { notes: { text: string; pinned: boolean }[] }
+ * export const notesState = defineWidgetState({
+ *   version: 2,
+ *   schema: notesStateSchema,
+ *   initialState: () => ({ notes: [] }),
+ *   migrations: {
+ *     1: (legacy) => ({ notes: legacy.notes ?? [] }),                                  // unversioned -> 1
+ *     2: (v1) => ({ notes: v1.notes.map((text: string) => ({ text, pinned: false })) }),  // 1 -> 2
+ *   },
+ * });
+ * ```
+ *
+ * @throws Error if the version is not a positive integer or a migration is missing
+ */
+export function defineWidgetState<T extends object>(definition: WidgetStateDefinition<T>): WidgetStateDefinition<T> {
+  const { version, migrations = {} } = definition;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Widget state version must be a positive integer, got ${version}`);
+  }
+  // Version 1 may skip its migration: state saved without a version is then discarded
+  for (let next = 2; next <= version; next++) {
+    if (!migrations[next]) throw new Error(`Widget state has no migration to version ${next}`);
+  }
+  return definition;
+}
+
+/**
+ * Turns state read from the host into the current version: migrates it, validates it, and
+ * falls back to the initial state when it is missing, newer than this widget, or invalid.
+ */
+export function readWidgetState<T extends object>(definition: WidgetStateDefinition<T>, stored: unknown): T {
+  if (stored == null) return definition.initialState();
+
+  const fallback = (reason: string) => {
+    console.warn(`Discarding saved widget state: ${reason}`);
+    return definition.initialState();
+  };
+
+  const { __version, ...rest } = (typeof stored === 'object' ? stored : {}) as { __version?: unknown };
+  const storedVersion = Number.isInteger(__version) ? (__version as number) : 0;
+  if (storedVersion > definition.version) {
+    return fallback(`it is version ${storedVersion}, written by a newer widget than this one (${definition.version})`);
+  }
+
+  let state: unknown = storedVersion > 0 ? rest : stored;
+  for (let next = storedVersion + 1; next <= definition.version; next++) {
+    const migrate = definition.migrations?.[next];
+    if (!migrate) return fallback(`no migration from version ${next - 1} to ${next}`);
+    try {
+      state = migrate(state);
+    } catch (error) {
+      return fallback(`migration to version ${next} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const result = definition.schema.safeParse(state);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return fallback(`it does not match the version ${definition.version} schema: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Prepares state for window.openai.setWidgetState.
+ *
+ * @returns The stored form and its JSON, for comparison with what the host sends back
+ * @throws WidgetStateSizeError if it is larger than the definition allows
+ */
+export function serializeWidgetState<T extends object>(
+  definition: WidgetStateDefinition<T>,
+  state: T
+): { stored: StoredWidgetState<T>; json: string } {
+  const stored = { ...state, __version: definition.version };
+  const json = JSON.stringify(stored);
+  const bytes = new TextEncoder().encode(json).length;
+  const maxBytes = definition.maxBytes ?? DEFAULT_WIDGET_STATE_MAX_BYTES;
+  if (bytes > maxBytes) throw new WidgetStateSizeError(bytes, maxBytes);
+  return { stored, json };
+}
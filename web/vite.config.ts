@@ -1,6 +1,9 @@
 /**
  * Vite configuration for development server.
  * Handles React components, Tailwind CSS processing, and dev server setup.
+ *
+ * The dev server proxies /mcp to the local MCP server (MCP_SERVER_URL, default
+ * http://localhost:8000) so the host emulator (emulator.html) can call its tools.
  */
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
@@ -8,6 +11,14 @@ import tailwindcss from "@tailwindcss/vite";
 
 export default defineConfig({
   plugins: [tailwindcss(), react()],
+  server: {
+    proxy: {
+      "/mcp": {
+        target: process.env.MCP_SERVER_URL || "http://localhost:8000",
+        changeOrigin: true,
+      },
+    },
+  },
   build: {
     target: "es2022",
     sourcemap: true,